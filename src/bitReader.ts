@@ -0,0 +1,268 @@
+/* eslint-disable no-bitwise */
+import { DynamicBuffer } from './dynamicBuffer';
+import { checkRange } from './utils';
+
+/**
+ * The order of the bits in each byte.
+ *
+ * - `'msb'`: the most significant bit of a byte comes first, and the first bit of a value is its
+ *   most significant bit, like H.264 and MPEG bitstreams.
+ * - `'lsb'`: the least significant bit of a byte comes first, and the first bit of a value is its
+ *   least significant bit, like DEFLATE streams.
+ */
+export type DynamicBufferBitOrder = 'msb' | 'lsb';
+
+export interface DynamicBufferBitOptions {
+  /**
+   * The order of the bits in each byte, default `'msb'`.
+   */
+  order?: DynamicBufferBitOrder;
+
+  /**
+   * The initial position in bytes, default `0`.
+   */
+  offset?: number;
+}
+
+/**
+ * The maximum number of leading zero bits of Exp-Golomb codes.
+ */
+export const MaxExpGolombLeadingZeros = 32;
+
+/**
+ * Validates the bit order option.
+ *
+ * @param order The bit order.
+ * @returns The bit order, default `'msb'`.
+ */
+export const resolveBitOrder = (order: DynamicBufferBitOrder = 'msb'): DynamicBufferBitOrder => {
+  if (order !== 'msb' && order !== 'lsb') {
+    throw new Error('Invalid bit order');
+  }
+
+  return order;
+};
+
+/**
+ * The `DynamicBufferBitReader` class wraps a `DynamicBuffer` with an internal bit position, and
+ * reads values of arbitrary bit widths from the buffer.
+ *
+ * The bit position is not adjusted after bytes removed from the start of the buffer by `consume`,
+ * `shift`, or `remove`. Use `seek` to move the position after that, or the reader will read the
+ * wrong bits.
+ *
+ * ```js
+ * const buf = new DynamicBuffer(Buffer.from([0x67, 0x42]));
+ * const reader = new DynamicBufferBitReader(buf);
+ * console.log(reader.readBits(1), reader.readBits(2), reader.readBits(5));
+ * // 0 3 7
+ * ```
+ */
+export class DynamicBufferBitReader {
+  /**
+   * The buffer to read from.
+   */
+  private buf: DynamicBuffer;
+
+  /**
+   * The order of the bits in each byte.
+   */
+  private order: DynamicBufferBitOrder;
+
+  /**
+   * The current read position in bits.
+   */
+  private position: number;
+
+  /**
+   * Create a bit reader to read data from the buffer.
+   *
+   * @param buf The buffer to read from.
+   * @param options The bit order and the initial position in bytes.
+   */
+  constructor(buf: DynamicBuffer, options: DynamicBufferBitOptions = {}) {
+    const { offset = 0 } = options;
+    checkRange('offset', offset, 0, buf.length);
+
+    this.buf = buf;
+    this.order = resolveBitOrder(options.order);
+    this.position = offset * 8;
+  }
+
+  /**
+   * Returns the number of bits between the current position and the end of the buffer.
+   *
+   * ```js
+   * const reader = new DynamicBufferBitReader(new DynamicBuffer('Hi'));
+   * reader.readBits(3);
+   * console.log(reader.remaining);
+   * // 13
+   * ```
+   */
+  get remaining() {
+    const total = this.buf.length * 8;
+    return total > this.position ? total - this.position : 0;
+  }
+
+  /**
+   * Skips the rest bits of the current byte, and it does nothing if the position is already at
+   * the byte boundary.
+   *
+   * @returns The reference to this reader.
+   */
+  align(): this {
+    const rest = this.position % 8;
+    if (rest !== 0) {
+      this.skip(Math.min(8 - rest, this.remaining));
+    }
+
+    return this;
+  }
+
+  /**
+   * Reads `length` bits at the current position as an unsigned BigInt, and advances the position
+   * by `length` bits.
+   *
+   * @param length Number of bits to read, and it must between `0` and `reader.remaining`.
+   * @returns The value read from the buffer.
+   */
+  readBigBits(length: number): bigint {
+    checkRange('length', length, 0);
+    if (length > this.remaining) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+
+    let value = 0n;
+    let count = 0;
+
+    while (count < length) {
+      const byte = this.buf.read(Math.floor(this.position / 8)) ?? 0;
+      const bitOffset = this.position % 8;
+      const available = 8 - bitOffset;
+      const take = Math.min(available, length - count);
+      const mask = (1 << take) - 1;
+
+      if (this.order === 'msb') {
+        const chunk = (byte >> (available - take)) & mask;
+        value = (value << BigInt(take)) | BigInt(chunk);
+      } else {
+        const chunk = (byte >> bitOffset) & mask;
+        value |= BigInt(chunk) << BigInt(count);
+      }
+
+      count += take;
+      this.position += take;
+    }
+
+    return value;
+  }
+
+  /**
+   * Reads a single bit at the current position, and advances the position by 1 bit.
+   *
+   * @returns The bit read from the buffer, `0` or `1`.
+   */
+  readBit(): number {
+    return Number(this.readBigBits(1));
+  }
+
+  /**
+   * Reads `length` bits at the current position as an unsigned integer, and advances the position
+   * by `length` bits. Use `readBigBits` to read more than 32 bits.
+   *
+   * ```js
+   * const reader = new DynamicBufferBitReader(new DynamicBuffer(Buffer.from([0xa5])));
+   * console.log(reader.readBits(4), reader.readBits(4));
+   * // 10 5
+   * ```
+   *
+   * @param length Number of bits to read, and it must between `0` and `32`.
+   * @returns The value read from the buffer.
+   */
+  readBits(length: number): number {
+    checkRange('length', length, 0, 32);
+
+    return Number(this.readBigBits(length));
+  }
+
+  /**
+   * Reads an unsigned Exp-Golomb code (`ue(v)` in H.264) at the current position, and advances
+   * the position by the length of the code. The position will not be changed if the code is
+   * invalid or truncated.
+   *
+   * @returns The value read from the buffer.
+   */
+  readExpGolomb(): number {
+    const start = this.position;
+
+    try {
+      let leadingZeros = 0;
+      while (this.readBit() === 0) {
+        leadingZeros += 1;
+        if (leadingZeros > MaxExpGolombLeadingZeros) {
+          throw new RangeError('Invalid Exp-Golomb code');
+        }
+      }
+
+      return 2 ** leadingZeros - 1 + Number(this.readBigBits(leadingZeros));
+    } catch (err) {
+      this.position = start;
+      throw err;
+    }
+  }
+
+  /**
+   * Reads a signed Exp-Golomb code (`se(v)` in H.264) at the current position, and advances the
+   * position by the length of the code.
+   *
+   * @returns The value read from the buffer.
+   */
+  readSignedExpGolomb(): number {
+    const value = this.readExpGolomb();
+
+    return value % 2 === 1 ? (value + 1) / 2 : -(value / 2);
+  }
+
+  /**
+   * Moves the read position to the specified bit offset.
+   *
+   * @param bitOffset The new read position in bits, and it must between `0` and
+   * `buf.length * 8`.
+   * @returns The reference to this reader.
+   */
+  seek(bitOffset: number): this {
+    checkRange('bitOffset', bitOffset, 0, this.buf.length * 8);
+
+    this.position = bitOffset;
+
+    return this;
+  }
+
+  /**
+   * Advances the read position by `length` bits without reading them.
+   *
+   * @param length Number of bits to skip, and it must between `0` and `reader.remaining`.
+   * @returns The reference to this reader.
+   */
+  skip(length: number): this {
+    checkRange('length', length, 0, this.remaining);
+
+    this.position += length;
+
+    return this;
+  }
+
+  /**
+   * Returns the current read position in bits.
+   *
+   * ```js
+   * const reader = new DynamicBufferBitReader(new DynamicBuffer('Hello'));
+   * reader.readBits(3);
+   * console.log(reader.tell());
+   * // 3
+   * ```
+   */
+  tell(): number {
+    return this.position;
+  }
+}
@@ -0,0 +1,216 @@
+/* eslint-disable no-bitwise */
+import {
+  DynamicBufferBitOptions,
+  DynamicBufferBitOrder,
+  MaxExpGolombLeadingZeros,
+  resolveBitOrder,
+} from './bitReader';
+import { DynamicBuffer } from './dynamicBuffer';
+import { DynamicBufferOverflowError } from './errors';
+import { checkRange } from './utils';
+
+/**
+ * The `DynamicBufferBitWriter` class wraps a `DynamicBuffer` with an internal bit position, and
+ * writes values of arbitrary bit widths into the buffer. The buffer will be resized automatically
+ * if there is not enough space, and the unwritten bits of the last byte are `0`.
+ *
+ * The bit position is not adjusted after bytes removed from the start of the buffer by `consume`,
+ * `shift`, or `remove`. Use `seek` to move the position after that, or the writer will overwrite
+ * the wrong bits.
+ *
+ * ```js
+ * const buf = new DynamicBuffer();
+ * const writer = new DynamicBufferBitWriter(buf);
+ *
+ * writer.writeBits(0, 1).writeBits(3, 2).writeBits(7, 5);
+ * console.log(buf.toBuffer());
+ * // <Buffer 67>
+ * ```
+ */
+export class DynamicBufferBitWriter {
+  /**
+   * The buffer to write to.
+   */
+  private buf: DynamicBuffer;
+
+  /**
+   * The order of the bits in each byte.
+   */
+  private order: DynamicBufferBitOrder;
+
+  /**
+   * The current write position in bits.
+   */
+  private position: number;
+
+  /**
+   * Create a bit writer to write data into the buffer.
+   *
+   * @param buf The buffer to write to.
+   * @param options The bit order and the initial position in bytes.
+   */
+  constructor(buf: DynamicBuffer, options: DynamicBufferBitOptions = {}) {
+    const { offset = 0 } = options;
+    checkRange('offset', offset, 0, buf.length);
+
+    this.buf = buf;
+    this.order = resolveBitOrder(options.order);
+    this.position = offset * 8;
+  }
+
+  /**
+   * Writes `0` bits until the position is at the byte boundary, and it does nothing if the
+   * position is already at the byte boundary.
+   *
+   * @returns The reference to this writer.
+   */
+  align(): this {
+    const rest = this.position % 8;
+    if (rest !== 0) {
+      this.writeBits(0, 8 - rest);
+    }
+
+    return this;
+  }
+
+  /**
+   * Moves the write position to the specified bit offset.
+   *
+   * @param bitOffset The new write position in bits, and it must between `0` and
+   * `buf.length * 8`.
+   * @returns The reference to this writer.
+   */
+  seek(bitOffset: number): this {
+    checkRange('bitOffset', bitOffset, 0, this.buf.length * 8);
+
+    this.position = bitOffset;
+
+    return this;
+  }
+
+  /**
+   * Returns the current write position in bits.
+   *
+   * ```js
+   * const writer = new DynamicBufferBitWriter(new DynamicBuffer());
+   * writer.writeBits(5, 3);
+   * console.log(writer.tell());
+   * // 3
+   * ```
+   */
+  tell(): number {
+    return this.position;
+  }
+
+  /**
+   * Writes a single bit at the current position, and advances the position by 1 bit.
+   *
+   * @param bit The bit to write, `0` or `1`.
+   * @returns The reference to this writer.
+   */
+  writeBit(bit: number): this {
+    return this.writeBits(bit, 1);
+  }
+
+  /**
+   * Writes the unsigned value as `length` bits at the current position, and advances the position
+   * by `length` bits. Use a BigInt value to write more than 53 bits.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * new DynamicBufferBitWriter(buf).writeBits(10, 4).writeBits(5, 4);
+   * console.log(buf.toBuffer());
+   * // <Buffer a5>
+   * ```
+   *
+   * @param value The value to write, and it must between `0` and `2 ** length - 1`.
+   * @param length Number of bits to write. Nothing will be written if the bits exceed the maximum
+   * size of the buffer, and a `DynamicBufferOverflowError` will be thrown.
+   * @returns The reference to this writer.
+   */
+  writeBits(value: number | bigint, length: number): this {
+    checkRange('length', length, 0);
+
+    const bits = BigInt(value);
+    if (bits < 0n || bits >= 1n << BigInt(length)) {
+      throw new RangeError(`The value of 'value' is out of range. It must be >= 0 and < 2 ** ${
+        length
+      }. Received ${value}`);
+    }
+
+    this.checkSize(length);
+
+    let count = 0;
+    while (count < length) {
+      const index = Math.floor(this.position / 8);
+      const bitOffset = this.position % 8;
+      const available = 8 - bitOffset;
+      const take = Math.min(available, length - count);
+      const mask = (1 << take) - 1;
+
+      let byte = this.buf.read(index) ?? 0;
+      if (this.order === 'msb') {
+        const chunk = Number((bits >> BigInt(length - count - take)) & BigInt(mask));
+        const shift = available - take;
+        byte = (byte & ~(mask << shift)) | (chunk << shift);
+      } else {
+        const chunk = Number((bits >> BigInt(count)) & BigInt(mask));
+        byte = (byte & ~(mask << bitOffset)) | (chunk << bitOffset);
+      }
+
+      this.buf.writeUInt8(byte, index);
+
+      count += take;
+      this.position += take;
+    }
+
+    return this;
+  }
+
+  /**
+   * Writes the value as an unsigned Exp-Golomb code (`ue(v)` in H.264) at the current position,
+   * and advances the position by the length of the code.
+   *
+   * @param value The value to write, and it must between `0` and `2 ** 33 - 2`.
+   * @returns The reference to this writer.
+   */
+  writeExpGolomb(value: number): this {
+    checkRange('value', value, 0, 2 ** (MaxExpGolombLeadingZeros + 1) - 2);
+
+    const code = value + 1;
+    const leadingZeros = Math.floor(Math.log2(code));
+    this.checkSize(leadingZeros * 2 + 1);
+
+    return this
+      .writeBits(0, leadingZeros)
+      .writeBits(1, 1)
+      .writeBits(code - 2 ** leadingZeros, leadingZeros);
+  }
+
+  /**
+   * Writes the value as a signed Exp-Golomb code (`se(v)` in H.264) at the current position, and
+   * advances the position by the length of the code.
+   *
+   * @param value The value to write, and it must between `-(2 ** 32 - 1)` and `2 ** 32 - 1`.
+   * @returns The reference to this writer.
+   */
+  writeSignedExpGolomb(value: number): this {
+    const limit = 2 ** MaxExpGolombLeadingZeros - 1;
+    checkRange('value', value, -limit, limit);
+
+    return this.writeExpGolomb(value > 0 ? value * 2 - 1 : -value * 2);
+  }
+
+  /**
+   * Checks the bits can be written at the current position without exceeding the maximum size of
+   * the buffer.
+   *
+   * @param length Number of bits to write.
+   */
+  private checkSize(length: number) {
+    const end = Math.ceil((this.position + length) / 8);
+    if (end > this.buf.maxSize) {
+      throw new DynamicBufferOverflowError(end, this.buf.maxSize);
+    }
+  }
+}
@@ -0,0 +1,149 @@
+/* eslint-disable no-bitwise */
+
+/**
+ * The bitwise operations that combine two buffers.
+ */
+export type BitwiseOperation = 'and' | 'or' | 'xor';
+
+/**
+ * Returns the bit of the byte, and the bit `0` is the most significant bit.
+ *
+ * @param byte The byte to read.
+ * @param bit The position of the bit in the byte, between `0` and `7`.
+ * @returns The bit, `0` or `1`.
+ */
+export const getByteBit = (byte: number, bit: number): number => (byte >> (7 - bit)) & 1;
+
+/**
+ * Sets or clears the bit of the byte, and the bit `0` is the most significant bit.
+ *
+ * @param byte The byte to update.
+ * @param bit The position of the bit in the byte, between `0` and `7`.
+ * @param value Sets the bit if it's truthy, or clears the bit.
+ * @returns The updated byte.
+ */
+export const setByteBit = (byte: number, bit: number, value: boolean): number => {
+  const mask = 0x80 >> bit;
+
+  return value ? byte | mask : byte & ~mask;
+};
+
+/**
+ * Counts the number of set bits in the data.
+ *
+ * @param data The data to count.
+ * @returns The number of set bits.
+ */
+export const countBits = (data: Uint8Array): number => {
+  let count = 0;
+
+  data.forEach((byte) => {
+    let rest = byte;
+    while (rest !== 0) {
+      rest &= rest - 1;
+      count += 1;
+    }
+  });
+
+  return count;
+};
+
+/**
+ * Counts the number of set bits in the data between the bit indices.
+ *
+ * @param data The data to count.
+ * @param start The bit index to start counting at.
+ * @param end The bit index to stop counting at (not inclusive), and it must not greater than
+ * `data.length * 8`.
+ * @returns The number of set bits.
+ */
+export const countBitRange = (data: Uint8Array, start: number, end: number): number => {
+  const firstByte = Math.ceil(start / 8);
+  const lastByte = Math.floor(end / 8);
+  if (firstByte > lastByte) {
+    // The range is inside a single byte.
+    let count = 0;
+    for (let bit = start; bit < end; bit += 1) {
+      count += getByteBit(data[lastByte], bit % 8);
+    }
+    return count;
+  }
+
+  let count = countBits(data.subarray(firstByte, lastByte));
+  for (let bit = start; bit < firstByte * 8; bit += 1) {
+    count += getByteBit(data[firstByte - 1], bit % 8);
+  }
+  for (let bit = lastByte * 8; bit < end; bit += 1) {
+    count += getByteBit(data[lastByte], bit % 8);
+  }
+
+  return count;
+};
+
+/**
+ * Finds the first bit with the specified value from the bit index.
+ *
+ * @param data The data to search.
+ * @param value The bit value to find, `0` or `1`.
+ * @param start The bit index to start searching.
+ * @returns The index of the first matched bit, or `-1` if not found.
+ */
+export const findBit = (data: Uint8Array, value: number, start: number): number => {
+  // The bytes that can be skipped, all bits are clear when finding set bits, and vice versa.
+  const skipped = value ? 0x00 : 0xff;
+
+  for (let index = Math.floor(start / 8); index < data.length; index += 1) {
+    const byte = data[index];
+    if (byte !== skipped) {
+      for (let bit = index === Math.floor(start / 8) ? start % 8 : 0; bit < 8; bit += 1) {
+        if (getByteBit(byte, bit) === value) {
+          return index * 8 + bit;
+        }
+      }
+    }
+  }
+
+  return -1;
+};
+
+/**
+ * Combines the source into the target with the bitwise operation in place, and the missing bytes
+ * of the source are treated as `0`.
+ *
+ * @param target The data to update.
+ * @param source The other operand.
+ * @param operation The bitwise operation.
+ */
+export const applyBitwise = (
+  target: Uint8Array,
+  source: Uint8Array,
+  operation: BitwiseOperation,
+): void => {
+  for (let i = 0; i < target.length; i += 1) {
+    const other = i < source.length ? source[i] : 0;
+
+    let value: number;
+    if (operation === 'and') {
+      value = target[i] & other;
+    } else if (operation === 'or') {
+      value = target[i] | other;
+    } else {
+      value = target[i] ^ other;
+    }
+
+    // eslint-disable-next-line no-param-reassign
+    target[i] = value;
+  }
+};
+
+/**
+ * Inverts all bits of the data in place.
+ *
+ * @param data The data to invert.
+ */
+export const invertBits = (data: Uint8Array): void => {
+  for (let i = 0; i < data.length; i += 1) {
+    // eslint-disable-next-line no-param-reassign
+    data[i] = ~data[i] & 0xff;
+  }
+};
@@ -1,14 +1,62 @@
 import { constants } from 'buffer';
-
+import { Readable, Writable, WritableOptions } from 'stream';
+import { ReadableStream, WritableStream } from 'stream/web';
+
+import {
+  applyBitwise, BitwiseOperation, countBitRange, findBit, getByteBit, invertBits, setByteBit,
+} from './bitwise';
+import { DynamicBufferFrameSizeError, DynamicBufferOverflowError } from './errors';
+import {
+  encodeFramePrefix, FramePrefixLimits, FramePrefixSizes, resolveFrameOptions,
+} from './frame';
 import { DynamicBufferIterator } from './iterator';
-import { checkBounds, checkRange, swap } from './utils';
+import { calcFormatSize, packFormat, unpackFormat } from './pack';
+import {
+  DynamicBufferReadable, DynamicBufferReadStreamOptions, DynamicBufferWatcher,
+} from './readable';
+import {
+  checkBounds, checkRange, findNullTerminator, nullTerminatorSize, swap, toSearchBuffer,
+} from './utils';
+import {
+  checkOverlongLEB128, decodeULEB128, encodeSLEB128, encodeULEB128, MaxVarUIntBytes, toSigned,
+  zigzagDecode, zigzagEncode,
+} from './varint';
+import { DynamicBufferWritable } from './writable';
 
 /**
  * The character encoding that is supported by Node.js, copy from Node.js Buffer module.
  */
-type BufferEncoding = 'ascii' | 'utf8' | 'utf-8' | 'utf16le' | 'ucs2' | 'ucs-2'
+export type BufferEncoding = 'ascii' | 'utf8' | 'utf-8' | 'utf16le' | 'ucs2' | 'ucs-2'
   | 'base64' | 'base64url' | 'latin1' | 'binary' | 'hex';
 
+/**
+ * The behavior when a write operation exceeds the maximum size of the buffer.
+ *
+ * - `'throw'`: throws a `DynamicBufferOverflowError`.
+ * - `'reject'`: discards the write operation, and nothing will be written.
+ * - `'truncate'`: writes data as many bytes as possible, and discards the rest. Numeric values
+ *   can't be truncated, so they'll be discarded like `'reject'`.
+ */
+export type DynamicBufferOverflowMode = 'throw' | 'reject' | 'truncate';
+
+/**
+ * A function to calculate the new size of the buffer, and the returned size must be greater than
+ * or equal to the required size.
+ */
+export type DynamicBufferGrowthFunction = (currentSize: number, requiredSize: number) => number;
+
+/**
+ * The strategy to calculate the new size of the buffer for resizing.
+ *
+ * - `'factor'`: increases the size with the product of the current size and the `factor` value.
+ * - `'power-of-two'`: rounds the required size up to the nearest power of two.
+ * - `'linear'`: increases the size by multiples of the `growthStep` value.
+ * - `'page'`: increases the size like `'factor'`, and rounds it up to a multiple of 4 KiB.
+ * - A custom function that returns the new size.
+ */
+export type DynamicBufferGrowthStrategy = 'factor' | 'power-of-two' | 'linear' | 'page'
+  | DynamicBufferGrowthFunction;
+
 export interface DynamicBufferOptions {
   /**
    * Character encoding for `fill` if `fill` is a string, default 'utf8'.
@@ -26,12 +74,111 @@ export interface DynamicBufferOptions {
    */
   fill?: string | Buffer | number;
 
+  /**
+   * The strategy to calculate the new size for buffer resizing, default `'factor'`.
+   */
+  growth?: DynamicBufferGrowthStrategy;
+
+  /**
+   * The number of bytes to increase for the `'linear'` growth strategy, default 1024.
+   */
+  growthStep?: number;
+
+  /**
+   * The maximum size of the buffer, and it must greater than 0, default
+   * `buffer.constants.MAX_LENGTH`.
+   */
+  maxSize?: number;
+
+  /**
+   * The behavior when a write operation exceeds the maximum size of the buffer, default
+   * `'throw'`.
+   */
+  overflow?: DynamicBufferOverflowMode;
+
   /**
    * The initial size of the buffer, and it must greater than 0, default 16.
    */
   size?: number;
 }
 
+export interface DynamicBufferTransformOptions {
+  /**
+   * Returns the result as a `DynamicBuffer` with the same settings of the source buffer instead
+   * of an `Uint8Array` if it's `true`, default `false`.
+   */
+  asDynamicBuffer?: boolean;
+}
+
+export interface DynamicBufferIteratorOptions {
+  /**
+   * Iterates over a copy of the buffer instead of the buffer itself if it's `true`, so modifying
+   * the buffer during iteration will not affect the iterator. Default `false`.
+   */
+  snapshot?: boolean;
+}
+
+export interface DynamicBufferLineOptions {
+  /**
+   * Uses `\r\n` as the line terminator instead of `\n` if it's `true`, default `false`.
+   */
+  crlf?: boolean;
+}
+
+/**
+ * The type of the length prefix of a frame.
+ */
+export type DynamicBufferFramePrefix = 'u8' | 'u16be' | 'u16le' | 'u32be' | 'u32le' | 'varint';
+
+export interface DynamicBufferFrameOptions {
+  /**
+   * The type of the length prefix, default `'u32be'`.
+   */
+  prefix?: DynamicBufferFramePrefix;
+
+  /**
+   * The maximum payload size of a frame, default the maximum value of the prefix type.
+   */
+  maxFrameSize?: number;
+}
+
+/**
+ * The type of the length prefix of a length-prefixed (Pascal-style) string.
+ */
+export type DynamicBufferPStringPrefix = 'u8' | 'u16le' | 'varint';
+
+export interface DynamicBufferPStringOptions {
+  /**
+   * The type of the length prefix, default `'u8'`.
+   */
+  prefix?: DynamicBufferPStringPrefix;
+
+  /**
+   * The character encoding of the string, default from buffer encoding.
+   */
+  encoding?: BufferEncoding;
+}
+
+/**
+ * The result of the read methods that read variable-length data.
+ */
+export interface DynamicBufferReadResult<T> {
+  /**
+   * The value read from the buffer.
+   */
+  value: T;
+
+  /**
+   * The number of bytes read from the buffer.
+   */
+  bytesRead: number;
+}
+
+/**
+ * The values that can be packed by `pack`, or returned by `unpack`.
+ */
+export type DynamicBufferPackValue = number | bigint | boolean | string | Buffer | Uint8Array;
+
 /**
  * The `DynamicBuffer` class is a type for dealing with binary data directly, and it'll handle
  * storage size automatically.
@@ -57,15 +204,26 @@ export class DynamicBuffer {
    */
   private readonly DefaultResizeFactor: number = 0.75;
 
+  /**
+   * The default step value for the linear growth strategy.
+   */
+  private readonly DefaultGrowthStep: number = 1024;
+
+  /**
+   * The page size for the page-aligned growth strategy.
+   */
+  private readonly PageSize: number = 4096;
+
   /**
    * Internal buffer to stores data.
    */
   private buffer?: Buffer;
 
   /**
-   * Character encoding for `fill` if `fill` is a string.
+   * The default character encoding of the buffer, and it's also used for `fill` if `fill` is a
+   * string.
    */
-  private encoding?: BufferEncoding;
+  private encodingVal: BufferEncoding;
 
   /**
    * The factor value for buffer resizing.
@@ -77,6 +235,37 @@ export class DynamicBuffer {
    */
   private fillVal?: string | Buffer | number;
 
+  /**
+   * The strategy to calculate the new size for buffer resizing.
+   */
+  private growth: DynamicBufferGrowthStrategy;
+
+  /**
+   * The number of bytes to increase for the linear growth strategy.
+   */
+  private growthStep: number;
+
+  /**
+   * The number of consumed bytes before the start of the buffer in the allocated memory.
+   */
+  private head: number;
+
+  /**
+   * The maximum size of the buffer.
+   */
+  private limit: number;
+
+  /**
+   * The number of modifications that changed the length or the storage of the buffer, it's used
+   * to detect modifications during iteration.
+   */
+  private modCount: number;
+
+  /**
+   * The behavior when a write operation exceeds the maximum size of the buffer.
+   */
+  private overflow: DynamicBufferOverflowMode;
+
   /**
    * The current size of the buffer.
    */
@@ -85,7 +274,13 @@ export class DynamicBuffer {
   /**
    * The number of bytes that used in the buffer.
    */
-  private used: number;
+  private usedBytes: number;
+
+  /**
+   * The watchers to be notified after new data appended to the buffer, or bytes removed from the
+   * start of the buffer.
+   */
+  private watchers?: Set<DynamicBufferWatcher>;
 
   // eslint-disable-next-line no-undef
   [index: number]: number | undefined;
@@ -163,6 +358,10 @@ export class DynamicBuffer {
       initOptions = data;
     }
 
+    if (typeof initData === 'string') {
+      initData = Buffer.from(initData, initOptions?.encoding || 'utf8');
+    }
+
     if (initOptions?.size !== undefined) {
       this.size = initOptions.size;
     } else {
@@ -177,26 +376,51 @@ export class DynamicBuffer {
       throw new Error('Invalid buffer size');
     }
 
-    this.used = 0;
+    this.usedBytes = 0;
+    this.head = 0;
+    this.modCount = 0;
     this.fillVal = initOptions?.fill || 0;
-    this.encoding = initOptions?.encoding || 'utf8';
+    this.encodingVal = initOptions?.encoding || 'utf8';
     this.factor = initOptions?.factor || this.DefaultResizeFactor;
 
     if (this.factor <= 0 || Number.isNaN(this.factor)) {
       throw new Error('Invalid factor');
     }
 
+    this.growth = initOptions?.growth || 'factor';
+    this.growthStep = initOptions?.growthStep || this.DefaultGrowthStep;
+
+    if (typeof this.growth !== 'function'
+      && !['factor', 'power-of-two', 'linear', 'page'].includes(this.growth)) {
+      throw new Error('Invalid growth strategy');
+    }
+    if (this.growthStep <= 0 || Number.isNaN(this.growthStep)) {
+      throw new Error('Invalid growth step');
+    }
+
+    this.limit = initOptions?.maxSize ?? constants.MAX_LENGTH;
+    this.overflow = initOptions?.overflow || 'throw';
+
+    if (this.limit <= 0 || this.limit > constants.MAX_LENGTH || Number.isNaN(this.limit)) {
+      throw new Error('Invalid max size');
+    }
+    if (!['throw', 'reject', 'truncate'].includes(this.overflow)) {
+      throw new Error('Invalid overflow mode');
+    }
+    if (initData && initData.length > this.limit) {
+      throw new DynamicBufferOverflowError(initData.length, this.limit);
+    }
+    if (this.size > this.limit) {
+      this.size = this.limit;
+    }
+
     if (this.size > 0) {
       this.buffer = Buffer.alloc(this.size, this.fillVal, this.encoding);
     }
 
     if (initData) {
-      if (typeof initData === 'string') {
-        this.append(initData);
-      } else {
-        this.buffer?.set(initData);
-        this.used = initData.length;
-      }
+      this.buffer?.set(initData);
+      this.used = initData.length;
     }
 
     // eslint-disable-next-line no-constructor-return
@@ -226,170 +450,886 @@ export class DynamicBuffer {
   }
 
   /**
-   * Returns the number of the used bytes in this buffer.
+   * Allocates a new buffer of `size` bytes, and fills it with the specified value.
    *
    * ```js
-   * buf.append('Hello');
-   * console.log(buf.length);
-   * // 5
+   * const buf = DynamicBuffer.alloc(5, 'a');
+   * console.log(buf.toString());
+   * // aaaaa
    * ```
+   *
+   * @param size The length of the new buffer.
+   * @param fill A value to pre-fill the new buffer with, default `0`.
+   * @param encoding The character encoding for `fill` if `fill` is a string, default `'utf8'`.
+   * @param options Buffer settings.
+   * @returns The new buffer.
    */
-  get length() {
-    return this.used;
+  static alloc(
+    size: number,
+    fill: string | Buffer | Uint8Array | number = 0,
+    encoding: BufferEncoding = 'utf8',
+    options: DynamicBufferOptions = {},
+  ): DynamicBuffer {
+    checkRange('size', size, 0, constants.MAX_LENGTH);
+
+    return new DynamicBuffer(Buffer.alloc(size, fill, encoding), options);
   }
 
   /**
-   * Appends string to this buffer according to the character encoding.
+   * Returns the byte length of the value when encoded using the specified encoding.
    *
    * ```js
-   * buf.append('Hello ');
-   * buf.append('world!');
-   * console.log(buf.toString());
-   * // Hello world!
+   * console.log(DynamicBuffer.byteLength('½ + ¼ = ¾'));
+   * // 12
    * ```
    *
-   * @param data String to write to buffer.
-   * @param length Maximum number of bytes to write, default the length of string.
-   * @param encoding The character encoding to use, default from buffer encoding.
-   * @returns The number of bytes written.
+   * @param value The value to calculate the length of.
+   * @param encoding The character encoding if the value is a string, default `'utf8'`.
+   * @returns The number of bytes contained within the value.
    */
-  append(
-    data: string | Buffer,
-    length?: number,
-    encoding?: BufferEncoding,
+  static byteLength(
+    value: string | DynamicBuffer | Uint8Array | DataView | ArrayBuffer | SharedArrayBuffer,
+    encoding: BufferEncoding = 'utf8',
   ): number {
-    const count = this.writeData(data, this.used, length, encoding);
-    this.used += count;
+    if (value instanceof DynamicBuffer) {
+      return value.length;
+    }
 
-    return count;
+    return Buffer.byteLength(value, encoding);
   }
 
   /**
-   * Takes an integer value and returns the item at that index, allowing for positive and negative
-   * integers. Negative integers count back from the last item in the array. Takes an integer value
-   * and returns the item at the index.
+   * Returns the number of bytes of the data packed with the Python struct-style format string.
    *
    * ```js
-   * buf.append('Hello world');
-   * console.log(buf.at(0));
-   * // 72
+   * console.log(DynamicBuffer.calcsize('<IhH8s'));
+   * // 16
+   * ```
    *
-   * @param index Zero-based index of the byte in the buffer to be returned.
-   * @returns The byte at the position in the buffer.
+   * @param format The format string, see `buf.pack()` for details.
+   * @returns The number of bytes.
    */
-  at(index: number): number | undefined {
-    if (!this.buffer || index >= this.used) {
-      return undefined;
-    }
-    if (index >= 0) {
-      return this.buffer[index];
-    }
-    if (typeof this.buffer.at === 'function') {
-      return this.buffer.at(index - (this.size - this.length));
-    }
-
-    // For Node 14 and lower versions.
-    if (index + this.length < 0) {
-      return undefined;
-    }
-
-    return this.buffer[index + this.length];
+  static calcsize(format: string): number {
+    return calcFormatSize(format);
   }
 
   /**
-   * Compares this buffer with target and returns a number to indicate whether comes before, after
-   * or they are the same in sort order.
+   * Returns a new buffer which is the result of concatenating all the buffers in the list
+   * together.
    *
    * ```js
-   * buf1.append('ABC');
-   * buf2.append('BCD');
-   * console.log(buf1.compare(buf2));
-   * // -1
+   * const buf = DynamicBuffer.concat([
+   *   new DynamicBuffer('Hello'),
+   *   Buffer.from(' '),
+   *   new Uint8Array([119, 111, 114, 108, 100]),
+   * ]);
+   * console.log(buf.toString());
+   * // Hello world
    * ```
    *
-   * @param target A buffer (`DynamicBuffer` or builtin `Buffer`) or `Uint8Array` with which to
-   * compare this buffer.
-   * @param targetStart The offset within `target` at which to begin comparison, default `0`.
-   * @param targetEnd the offset within `target` at which to end comparison (not inclusive),
-   * default `target.length`.
-   * @param sourceStart The offset within this buffer at which to begin comparison, default `0`.
-   * @param sourceEnd the offset within this buffer at which to end comparison (not inclusive),
-   * default `target.length`.
-   * @returns `0` if `target` is the same as this buffer; `1` if `target` should come before this
-   * buffer when sorted; `-1` if `target` should come after this buffer when sorted.
+   * @param list List of `DynamicBuffer`, `Buffer`, or `Uint8Array` instances to concatenate.
+   * @param totalLength Total length of the new buffer, default the sum of the lengths of the
+   * buffers in the list. The result will be truncated if the total length is less than the sum,
+   * or filled with zeros if it's greater than the sum.
+   * @returns The new buffer.
    */
-  compare(
-    target: this | Buffer | Uint8Array,
-    targetStart: number = 0,
-    targetEnd: number = target.length,
-    sourceStart: number = 0,
-    sourceEnd: number = this.length,
-  ): 0 | 1 | -1 {
-    const otherBuf = target instanceof DynamicBuffer ? (target.buffer || ([] as number[])) : target;
-    const thisBuf = this.buffer || ([] as number[]);
+  static concat(
+    list: ReadonlyArray<DynamicBuffer | Buffer | Uint8Array>,
+    totalLength?: number,
+  ): DynamicBuffer {
+    if (totalLength !== undefined) {
+      checkRange('totalLength', totalLength, 0, constants.MAX_LENGTH);
+    }
 
-    let i = targetStart;
-    let j = sourceStart;
+    const buffers = list.map((item) => (item instanceof DynamicBuffer ? item.subarray() : item));
 
-    while (i < targetEnd && j < sourceEnd && i < target.length && j < this.length) {
-      if (thisBuf[j] !== otherBuf[i]) {
-        return thisBuf[j] > otherBuf[i] ? 1 : -1;
-      }
+    return new DynamicBuffer(Buffer.concat(buffers, totalLength));
+  }
 
-      i += 1;
-      j += 1;
+  /**
+   * Creates a new buffer with the initial data. The data can be a string, an array of bytes,
+   * an iterable of bytes, an `ArrayBuffer`, or another buffer.
+   *
+   * ```js
+   * const buf1 = DynamicBuffer.from([72, 101, 108, 108, 111]);
+   * const buf2 = DynamicBuffer.from('SGVsbG8=', { encoding: 'base64' });
+   * console.log(buf1.toString('utf8'), buf2.toString('utf8'));
+   * // Hello Hello
+   * ```
+   *
+   * @param data Initial data in the new buffer, it'll be decoded by the `encoding` option if it's
+   * a string.
+   * @param options Buffer settings.
+   * @returns The new buffer.
+   */
+  static from(
+    data: string | DynamicBuffer | Uint8Array | ArrayBuffer | SharedArrayBuffer
+      | ArrayLike<number> | Iterable<number>,
+    options: DynamicBufferOptions = {},
+  ): DynamicBuffer {
+    if (typeof data === 'string') {
+      return new DynamicBuffer(Buffer.from(data, options.encoding || 'utf8'), options);
     }
-
-    if (i < targetEnd || (i < target.length && target.length < targetEnd)) {
-      return -1;
+    if (data instanceof Uint8Array) {
+      return new DynamicBuffer(data, options);
     }
-    if (j < sourceEnd || (j < this.length && this.length < sourceEnd)) {
-      return 1;
+    if (data instanceof DynamicBuffer) {
+      return new DynamicBuffer(data.subarray(), options);
+    }
+    if (data instanceof ArrayBuffer || data instanceof SharedArrayBuffer) {
+      return new DynamicBuffer(Buffer.from(data), options);
     }
 
-    return 0;
+    return new DynamicBuffer(Buffer.from(Array.from(data)), options);
   }
 
   /**
-   * Copies data from a region of `buf` to a region in `target`.
+   * Reads all data from a web `ReadableStream` into a new buffer. The returned promise will be
+   * rejected with a `DynamicBufferOverflowError` if the data exceeds the `maxSize` option, and the
+   * source stream will be cancelled.
    *
-   * @param target A buffer to copy into.
-   * @param targetStart The offset within `target` at which to be begin writing, default 0.
-   * @param sourceStart The offset within `buf` from which to begin copying, default 0.
-   * @param sourceEnd The offset within `buf` at which to stop copying (not inclusive),
-   * default `buf.length`.
-   * @returns The number of bytes copied.
+   * ```js
+   * const res = await fetch('https://example.com');
+   * const buf = await DynamicBuffer.fromReadableStream(res.body, { maxSize: 1024 * 1024 });
+   * ```
+   *
+   * @param stream The web readable stream to read from.
+   * @param options Buffer settings.
+   * @returns The new buffer with all data from the stream.
    */
-  copy(
-    target: DynamicBuffer | Buffer | Uint8Array,
-    targetStart: number = 0,
-    sourceStart: number = 0,
-    sourceEnd: number = this.length,
-  ): number {
-    checkRange('targetStart', targetStart, 0);
-    checkRange('sourceStart', sourceStart, 0);
-    if (sourceEnd > this.length) {
-      // eslint-disable-next-line no-param-reassign
-      sourceEnd = this.length;
-    }
-
-    if (target instanceof DynamicBuffer) {
-      return target.write(this.toString(this.encoding, sourceStart, sourceEnd), targetStart);
-    }
+  static async fromReadableStream(
+    stream: ReadableStream<Uint8Array>,
+    options: DynamicBufferOptions = {},
+  ): Promise<DynamicBuffer> {
+    const buf = new DynamicBuffer(options);
 
-    if (!this.buffer || this.length === 0) {
-      return 0;
-    }
+    await stream.pipeTo(buf.toWritableStream());
 
-    return this.buffer.copy(target, targetStart, sourceStart, sourceEnd);
+    return buf;
   }
 
   /**
-   * Returns the this buffer after copying a section of the buffer identified by start and end
-   * to the same buffer starting at position target.
+   * Returns `true` if `encoding` is the name of a supported character encoding, or `false`
+   * otherwise.
    *
-   * @param target If target is negative, it is treated as length+target where length is the
-   * length of the array.
+   * ```js
+   * console.log(DynamicBuffer.isEncoding('utf8'));
+   * // true
+   * console.log(DynamicBuffer.isEncoding('utf-32'));
+   * // false
+   * ```
+   *
+   * @param encoding A character encoding name to check.
+   * @returns Whether the encoding is supported or not.
+   */
+  static isEncoding(encoding: string): encoding is BufferEncoding {
+    return Buffer.isEncoding(encoding);
+  }
+
+  /**
+   * Returns the number of bytes that allocated for this buffer, it's always greater than or equal
+   * to the length of this buffer. The space of the consumed bytes is not included until the buffer
+   * is compacted.
+   *
+   * ```js
+   * const buf = new DynamicBuffer({ size: 32 });
+   * buf.append('Hello');
+   * console.log(buf.capacity);
+   * // 32
+   * ```
+   */
+  get capacity() {
+    return this.size;
+  }
+
+  /**
+   * Returns the default character encoding of this buffer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer({ encoding: 'latin1' });
+   * console.log(buf.encoding);
+   * // latin1
+   * ```
+   */
+  get encoding() {
+    return this.encodingVal;
+  }
+
+  /**
+   * Returns the number of the used bytes in this buffer.
+   *
+   * ```js
+   * buf.append('Hello');
+   * console.log(buf.length);
+   * // 5
+   * ```
+   */
+  get length() {
+    return this.used;
+  }
+
+  /**
+   * Returns the maximum number of bytes that this buffer can hold.
+   *
+   * ```js
+   * const buf = new DynamicBuffer({ maxSize: 1024 });
+   * console.log(buf.maxSize);
+   * // 1024
+   * ```
+   */
+  get maxSize() {
+    return this.limit;
+  }
+
+  /**
+   * Creates and returns an async iterator for the data in this buffer, and the data will be
+   * yielded as chunks. It's equivalent to iterating `buf.createReadStream()`, use the readable
+   * stream in live mode to iterate the data that appended later.
+   *
+   * ```js
+   * for await (const chunk of buf) {
+   *   console.log(chunk.length);
+   * }
+   *
+   * for await (const chunk of buf.createReadStream({ live: true })) {
+   *   // ...
+   * }
+   * ```
+   *
+   * @returns Async iterator of data chunks.
+   */
+  [Symbol.asyncIterator](): AsyncIterableIterator<Buffer> {
+    return this.createReadStream()[Symbol.asyncIterator]();
+  }
+
+  /**
+   * Creates and returns an iterator for values(bytes) in this buffer, it's equivalent to
+   * `buf.values()`.
+   *
+   * ```js
+   * buf.append('Hi');
+   * console.log([...buf]);
+   * // [72, 105]
+   * ```
+   *
+   * @returns Iterator of buffer values.
+   */
+  [Symbol.iterator](): IterableIterator<number> {
+    return this.values();
+  }
+
+  /**
+   * Performs bitwise AND between this buffer and the other buffer in place. This buffer will be
+   * extended with zero bytes if it's shorter than the other buffer, and the missing bytes of the
+   * other buffer are treated as `0`.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0xf0, 0xff]));
+   * buf.and(Buffer.from([0x3c]));
+   * console.log(buf.toBuffer());
+   * // <Buffer 30 00>
+   * ```
+   *
+   * @param other The other operand.
+   * @returns The reference to this buffer.
+   */
+  and(other: DynamicBuffer | Buffer | Uint8Array): this {
+    return this.combineBits(other, 'and');
+  }
+
+  /**
+   * Appends string to this buffer according to the character encoding.
+   *
+   * ```js
+   * buf.append('Hello ');
+   * buf.append('world!');
+   * console.log(buf.toString());
+   * // Hello world!
+   * ```
+   *
+   * @param data String to write to buffer.
+   * @param length Maximum number of bytes to write, default the byte length of the data.
+   * @param encoding The character encoding to use, default from buffer encoding.
+   * @returns The number of bytes written.
+   */
+  append(
+    data: string | Buffer,
+    length?: number,
+    encoding?: BufferEncoding,
+  ): number {
+    const count = this.writeData(data, this.used, length, encoding);
+    if (count <= 0) {
+      return 0;
+    }
+
+    this.used += count;
+
+    return count;
+  }
+
+  /**
+   * Appends a signed integer BigInt to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendBigInt64BE(value: bigint): number {
+    return this.appendValue((offset) => this.writeBigInt64BE(value, offset));
+  }
+
+  /**
+   * Appends a signed integer BigInt to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendBigInt64LE(value: bigint): number {
+    return this.appendValue((offset) => this.writeBigInt64LE(value, offset));
+  }
+
+  /**
+   * Appends an unsigned integer BigInt to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendBigUInt64BE(value: bigint): number {
+    return this.appendValue((offset) => this.writeBigUInt64BE(value, offset));
+  }
+
+  /**
+   * Appends an unsigned integer BigInt to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendBigUInt64LE(value: bigint): number {
+    return this.appendValue((offset) => this.writeBigUInt64LE(value, offset));
+  }
+
+  /**
+   * Appends a Javascript number to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendDoubleBE(value: number): number {
+    return this.appendValue((offset) => this.writeDoubleBE(value, offset));
+  }
+
+  /**
+   * Appends a Javascript number to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendDoubleLE(value: number): number {
+    return this.appendValue((offset) => this.writeDoubleLE(value, offset));
+  }
+
+  /**
+   * Appends a Javascript number to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendFloatBE(value: number): number {
+    return this.appendValue((offset) => this.writeFloatBE(value, offset));
+  }
+
+  /**
+   * Appends a Javascript number to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendFloatLE(value: number): number {
+    return this.appendValue((offset) => this.writeFloatLE(value, offset));
+  }
+
+  /**
+   * Appends a 8-bits signed integer to the end of the buffer.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendInt8(value: number): number {
+    return this.appendValue((offset) => this.writeInt8(value, offset));
+  }
+
+  /**
+   * Appends a 16-bits signed integer to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendInt16BE(value: number): number {
+    return this.appendValue((offset) => this.writeInt16BE(value, offset));
+  }
+
+  /**
+   * Appends a 16-bits signed integer to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendInt16LE(value: number): number {
+    return this.appendValue((offset) => this.writeInt16LE(value, offset));
+  }
+
+  /**
+   * Appends a 32-bits signed integer to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendInt32BE(value: number): number {
+    return this.appendValue((offset) => this.writeInt32BE(value, offset));
+  }
+
+  /**
+   * Appends a 32-bits signed integer to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendInt32LE(value: number): number {
+    return this.appendValue((offset) => this.writeInt32LE(value, offset));
+  }
+
+  /**
+   * Appends `byteLength` bytes to the end of the buffer as a big-endian signed integer.
+   * Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendIntBE(value: number, byteLength: number): number {
+    return this.appendValue((offset) => this.writeIntBE(value, offset, byteLength));
+  }
+
+  /**
+   * Appends `byteLength` bytes to the end of the buffer as a little-endian signed integer.
+   * Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendIntLE(value: number, byteLength: number): number {
+    return this.appendValue((offset) => this.writeIntLE(value, offset, byteLength));
+  }
+
+  /**
+   * Appends a 8-bits unsigned integer to the end of the buffer.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendUInt8(value: number): number {
+    return this.appendValue((offset) => this.writeUInt8(value, offset));
+  }
+
+  /**
+   * Appends a 16-bits unsigned integer to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendUInt16BE(value: number): number {
+    return this.appendValue((offset) => this.writeUInt16BE(value, offset));
+  }
+
+  /**
+   * Appends a 16-bits unsigned integer to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendUInt16LE(value: number): number {
+    return this.appendValue((offset) => this.writeUInt16LE(value, offset));
+  }
+
+  /**
+   * Appends a 32-bits unsigned integer to the end of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendUInt32BE(value: number): number {
+    return this.appendValue((offset) => this.writeUInt32BE(value, offset));
+  }
+
+  /**
+   * Appends a 32-bits unsigned integer to the end of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendUInt32LE(value: number): number {
+    return this.appendValue((offset) => this.writeUInt32LE(value, offset));
+  }
+
+  /**
+   * Appends `byteLength` bytes to the end of the buffer as a big-endian unsigned integer.
+   * Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendUIntBE(value: number, byteLength: number): number {
+    return this.appendValue((offset) => this.writeUIntBE(value, offset, byteLength));
+  }
+
+  /**
+   * Appends `byteLength` bytes to the end of the buffer as a little-endian unsigned integer.
+   * Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded
+   * because it exceeds the maximum size of the buffer.
+   */
+  appendUIntLE(value: number, byteLength: number): number {
+    return this.appendValue((offset) => this.writeUIntLE(value, offset, byteLength));
+  }
+
+  /**
+   * Takes an integer value and returns the item at that index, allowing for positive and negative
+   * integers. Negative integers count back from the last item in the array. Takes an integer value
+   * and returns the item at the index.
+   *
+   * ```js
+   * buf.append('Hello world');
+   * console.log(buf.at(0));
+   * // 72
+   *
+   * @param index Zero-based index of the byte in the buffer to be returned.
+   * @returns The byte at the position in the buffer.
+   */
+  at(index: number): number | undefined {
+    if (!this.buffer || index >= this.used) {
+      return undefined;
+    }
+    if (index >= 0) {
+      return this.buffer[index];
+    }
+    if (typeof this.buffer.at === 'function') {
+      return this.buffer.at(index - (this.size - this.length));
+    }
+
+    // For Node 14 and lower versions.
+    if (index + this.length < 0) {
+      return undefined;
+    }
+
+    return this.buffer[index + this.length];
+  }
+
+  /**
+   * Creates and returns an iterator that yields the data of this buffer as `subarray` chunks
+   * with the specified size, and the last chunk may be smaller than the size.
+   *
+   * ```js
+   * buf.append('Hello world');
+   * for (const chunk of buf.chunks(4)) {
+   *   console.log(chunk.toString());
+   * }
+   * // Hell
+   * // o wo
+   * // rld
+   * ```
+   *
+   * @param size The maximum number of bytes of each chunk, it must greater than `0`.
+   * @param options Iterator settings, set `snapshot` to iterate over a copy of this buffer.
+   * @returns Iterator of data chunks.
+   */
+  chunks(size: number, options: DynamicBufferIteratorOptions = {}): IterableIterator<Buffer> {
+    checkRange('size', size, 1);
+
+    const buf = options.snapshot ? this.clone() : this;
+
+    return new class extends DynamicBufferIterator<Buffer> {
+      next(): IteratorResult<Buffer, any> {
+        this.checkModification();
+
+        if (!this.buf.buffer || this.buf.used <= this.index) {
+          return {
+            done: true,
+            value: undefined,
+          };
+        }
+
+        const end = this.index + size < this.buf.used ? this.index + size : this.buf.used;
+        const value = this.buf.buffer.subarray(this.index, end);
+        this.index = end;
+
+        return {
+          done: false,
+          value,
+        };
+      }
+    }(buf, () => buf.modCount);
+  }
+
+  /**
+   * Removes all data from this buffer, and frees the allocated memory if `release` is `true`.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * buf.clear();
+   * console.log(buf.length, buf.capacity);
+   * // 0 16
+   * buf.clear(true);
+   * console.log(buf.length, buf.capacity);
+   * // 0 0
+   * ```
+   *
+   * @param release Whether to free the allocated memory or not, default `false`.
+   * @returns The reference to this buffer.
+   */
+  clear(release: boolean = false): this {
+    this.used = 0;
+
+    if (release && this.size > 0) {
+      this.resize(0);
+    } else {
+      this.compact();
+    }
+
+    return this;
+  }
+
+  /**
+   * Clears the bit at the specified index, and the bit `0` is the most significant bit of the
+   * first byte. This buffer will be extended with zero bytes if the index is out of range.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0xff]));
+   * buf.clearBit(0);
+   * console.log(buf.toBuffer());
+   * // <Buffer 7f>
+   * ```
+   *
+   * @param index The index of the bit.
+   * @returns The reference to this buffer.
+   */
+  clearBit(index: number): this {
+    return this.setBit(index, false);
+  }
+
+  /**
+   * Creates a new buffer with a copy of the data and the same settings of this buffer, including
+   * the capacity.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello');
+   * const copy = buf.clone();
+   * copy.append(' world');
+   * console.log(buf.toString(), copy.toString());
+   * // Hello Hello world
+   * ```
+   *
+   * @returns The new buffer.
+   */
+  clone(): DynamicBuffer {
+    return new DynamicBuffer(this.subarray(), { ...this.getOptions(), size: this.size });
+  }
+
+  /**
+   * Moves the data to the start of the allocated memory to reuse the space of the consumed bytes.
+   * It'll be called automatically if the consumed bytes take more than half of the allocated
+   * memory, or the buffer needs more space. The data is copied to newly allocated memory, so the
+   * `subarray` views of this buffer created before compacting are not changed.
+   *
+   * ```js
+   * const buf = new DynamicBuffer({ size: 16 });
+   * buf.append('Hello world');
+   * buf.consume(6);
+   * console.log(buf.capacity);
+   * // 10
+   * buf.compact();
+   * console.log(buf.capacity);
+   * // 16
+   * ```
+   *
+   * @returns The reference to this buffer.
+   */
+  compact(): this {
+    if (!this.buffer || this.head === 0) {
+      return this;
+    }
+
+    const newBuffer = Buffer.alloc(this.head + this.size, this.fillVal, this.encoding);
+    if (this.used > 0) {
+      this.buffer.copy(newBuffer, 0, 0, this.used);
+    }
+
+    this.buffer = newBuffer;
+    this.size = newBuffer.length;
+    this.head = 0;
+
+    return this;
+  }
+
+  /**
+   * Compares this buffer with target and returns a number to indicate whether comes before, after
+   * or they are the same in sort order.
+   *
+   * ```js
+   * buf1.append('ABC');
+   * buf2.append('BCD');
+   * console.log(buf1.compare(buf2));
+   * // -1
+   * ```
+   *
+   * @param target A buffer (`DynamicBuffer` or builtin `Buffer`) or `Uint8Array` with which to
+   * compare this buffer.
+   * @param targetStart The offset within `target` at which to begin comparison, default `0`.
+   * @param targetEnd the offset within `target` at which to end comparison (not inclusive),
+   * default `target.length`.
+   * @param sourceStart The offset within this buffer at which to begin comparison, default `0`.
+   * @param sourceEnd the offset within this buffer at which to end comparison (not inclusive),
+   * default `target.length`.
+   * @returns `0` if `target` is the same as this buffer; `1` if `target` should come before this
+   * buffer when sorted; `-1` if `target` should come after this buffer when sorted.
+   */
+  compare(
+    target: this | Buffer | Uint8Array,
+    targetStart: number = 0,
+    targetEnd: number = target.length,
+    sourceStart: number = 0,
+    sourceEnd: number = this.length,
+  ): 0 | 1 | -1 {
+    const otherBuf = target instanceof DynamicBuffer ? (target.buffer || ([] as number[])) : target;
+    const thisBuf = this.buffer || ([] as number[]);
+
+    let i = targetStart;
+    let j = sourceStart;
+
+    while (i < targetEnd && j < sourceEnd && i < target.length && j < this.length) {
+      if (thisBuf[j] !== otherBuf[i]) {
+        return thisBuf[j] > otherBuf[i] ? 1 : -1;
+      }
+
+      i += 1;
+      j += 1;
+    }
+
+    if (i < targetEnd || (i < target.length && target.length < targetEnd)) {
+      return -1;
+    }
+    if (j < sourceEnd || (j < this.length && this.length < sourceEnd)) {
+      return 1;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Removes the specified number of bytes from the start of this buffer without copying the
+   * remaining data, and the indices of the remaining data will start from `0`.
+   *
+   * The positions of the readable streams created by `createReadStream` will be moved backward,
+   * but the positions of `DynamicBufferReader`, `DynamicBufferWriter`, `DynamicBufferBitReader`
+   * and `DynamicBufferBitWriter` are not adjusted, and they should be moved by `seek`.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * buf.consume(6);
+   * console.log(buf.toString(), buf.length);
+   * // world 5
+   * ```
+   *
+   * @param length The number of bytes to remove, it'll remove all data if it's greater than the
+   * length of this buffer.
+   * @returns The number of bytes removed.
+   */
+  consume(length: number): number {
+    checkRange('length', length, 0);
+
+    const count = length < this.used ? length : this.used;
+    if (!this.buffer || count === 0) {
+      return 0;
+    }
+
+    this.buffer = this.buffer.subarray(count);
+    this.head += count;
+    this.size -= count;
+    this.used -= count;
+
+    if (this.used === 0 || this.head > this.size) {
+      this.compact();
+    }
+
+    this.watchers?.forEach((watcher) => watcher.onConsume(count));
+
+    return count;
+  }
+
+  /**
+   * Copies data from a region of `buf` to a region in `target`.
+   *
+   * @param target A buffer to copy into.
+   * @param targetStart The offset within `target` at which to be begin writing, default 0.
+   * @param sourceStart The offset within `buf` from which to begin copying, default 0.
+   * @param sourceEnd The offset within `buf` at which to stop copying (not inclusive),
+   * default `buf.length`.
+   * @returns The number of bytes copied.
+   */
+  copy(
+    target: DynamicBuffer | Buffer | Uint8Array,
+    targetStart: number = 0,
+    sourceStart: number = 0,
+    sourceEnd: number = this.length,
+  ): number {
+    checkRange('targetStart', targetStart, 0);
+    checkRange('sourceStart', sourceStart, 0);
+    if (sourceEnd > this.length) {
+      // eslint-disable-next-line no-param-reassign
+      sourceEnd = this.length;
+    }
+
+    if (target instanceof DynamicBuffer) {
+      return target.write(this.toString(this.encoding, sourceStart, sourceEnd), targetStart);
+    }
+
+    if (!this.buffer || this.length === 0) {
+      return 0;
+    }
+
+    return this.buffer.copy(target, targetStart, sourceStart, sourceEnd);
+  }
+
+  /**
+   * Returns the this buffer after copying a section of the buffer identified by start and end
+   * to the same buffer starting at position target.
+   *
+   * @param target If target is negative, it is treated as length+target where length is the
+   * length of the array.
    * @param start If start is negative, it is treated as length+start. If end is negative, it
    * is treated as length+end.
    * @param end If not specified, length of the this object is used as its default value.
@@ -404,9 +1344,52 @@ export class DynamicBuffer {
     return this;
   }
 
+  /**
+   * Creates a readable stream that emits the data of this buffer as `subarray` chunks without
+   * copying. In live mode, the stream keeps emitting the data that appended to this buffer until
+   * `end()` is called.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * const stream = buf.createReadStream({ live: true });
+   *
+   * stream.pipe(socket);
+   * buf.append('Hello');
+   * buf.append(' world');
+   * stream.end();
+   * ```
+   *
+   * @param options The options of the readable stream.
+   * @returns The readable stream.
+   */
+  createReadStream(options: DynamicBufferReadStreamOptions = {}): DynamicBufferReadable {
+    return new DynamicBufferReadable(this, options, (watcher) => this.watch(watcher));
+  }
+
+  /**
+   * Creates a writable stream that appends all written data to the end of this buffer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer({ maxSize: 1024 * 1024 });
+   * const stream = buf.createWriteStream();
+   *
+   * req.pipe(stream);
+   * await stream.finished;
+   * ```
+   *
+   * @param options The options of the writable stream.
+   * @returns The writable stream.
+   */
+  createWriteStream(options?: WritableOptions): DynamicBufferWritable {
+    return new DynamicBufferWritable(this, options);
+  }
+
   /**
    * Creates and returns an iterator of key(index) and value(byte) pairs from this buffer.
    *
+   * It throws a `DynamicBufferConcurrentModificationError` if this buffer has been resized,
+   * truncated, or shifted during iteration, unless the `snapshot` option is set.
+   *
    * ```js
    * buf.append('Hello');
    *
@@ -419,12 +1402,17 @@ export class DynamicBuffer {
    * // [3, 108]
    * // [4, 111]
    *
+   * @param options Iterator settings, set `snapshot` to iterate over a copy of this buffer.
    * @returns Iterator of index and byte pairs from this buffer.
    * ```
    */
-  entries(): IterableIterator<[number, number]> {
+  entries(options: DynamicBufferIteratorOptions = {}): IterableIterator<[number, number]> {
+    const buf = options.snapshot ? this.clone() : this;
+
     return new class extends DynamicBufferIterator<[number, number]> {
       next(): IteratorResult<[number, number], any> {
+        this.checkModification();
+
         if (!this.buf.buffer || this.buf.used === this.index) {
           return {
             done: true,
@@ -441,7 +1429,7 @@ export class DynamicBuffer {
           value: [i, value],
         };
       }
-    }(this);
+    }(buf, () => buf.modCount);
   }
 
   /**
@@ -529,16 +1517,38 @@ export class DynamicBuffer {
    * the predicate function one time for each byte in the buffer.
    * @param thisArg An object to which the this keyword can refer in the predicate function.
    * If thisArg is omitted, undefined is used as the this value.
+   * @param options Set `asDynamicBuffer` to `true` to get the result as a `DynamicBuffer`.
    */
   filter(
     predicate: (value: number, index: number, array: Uint8Array) => any,
     thisArg?: any,
-  ): Uint8Array {
+  ): Uint8Array;
+
+  filter(
+    predicate: (value: number, index: number, array: Uint8Array) => any,
+    thisArg: any,
+    options: DynamicBufferTransformOptions & { asDynamicBuffer: true },
+  ): DynamicBuffer;
+
+  filter(
+    predicate: (value: number, index: number, array: Uint8Array) => any,
+    thisArg?: any,
+    options?: DynamicBufferTransformOptions,
+  ): Uint8Array | DynamicBuffer;
+
+  filter(
+    predicate: (value: number, index: number, array: Uint8Array) => any,
+    thisArg?: any,
+    options?: DynamicBufferTransformOptions,
+  ): Uint8Array | DynamicBuffer {
+    let result: Uint8Array;
     if (!this.buffer || this.length === 0) {
-      return new Uint8Array(0);
+      result = new Uint8Array(0);
+    } else {
+      result = this.buffer.subarray(0, this.length).filter(predicate, thisArg);
     }
 
-    return this.buffer.subarray(0, this.length).filter(predicate, thisArg);
+    return options?.asDynamicBuffer ? new DynamicBuffer(result, this.getOptions()) : result;
   }
 
   /**
@@ -562,6 +1572,42 @@ export class DynamicBuffer {
     return this.buffer.subarray(0, this.length).find(predicate, thisArg);
   }
 
+  /**
+   * Finds the index of the first clear bit from the specified bit index.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0xff, 0xfe]));
+   * console.log(buf.findFirstClear());
+   * // 15
+   * ```
+   *
+   * @param start The bit index to start searching, default `0`.
+   * @returns The index of the first clear bit, or `-1` if all bits are set.
+   */
+  findFirstClear(start: number = 0): number {
+    checkRange('start', start, 0);
+
+    return findBit(this.subarray(0, this.used), 0, start);
+  }
+
+  /**
+   * Finds the index of the first set bit from the specified bit index.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0x00, 0x10]));
+   * console.log(buf.findFirstSet());
+   * // 11
+   * ```
+   *
+   * @param start The bit index to start searching, default `0`.
+   * @returns The index of the first set bit, or `-1` if no bit is set.
+   */
+  findFirstSet(start: number = 0): number {
+    checkRange('start', start, 0);
+
+    return findBit(this.subarray(0, this.used), 1, start);
+  }
+
   /**
    * Returns the index of the first byte in the buffer where predicate is true, and -1 otherwise.
    *
@@ -601,6 +1647,64 @@ export class DynamicBuffer {
     this.buffer.subarray(0, this.length).forEach(callbackfn, thisArg);
   }
 
+  /**
+   * Creates and returns an iterator that reads and removes the complete frames from the start of
+   * this buffer, it stops when there is no complete frame, and the partial data will be kept.
+   *
+   * ```js
+   * socket.on('data', (data) => {
+   *   buf.append(data);
+   *   for (const frame of buf.frames({ prefix: 'u16be' })) {
+   *     handleMessage(frame);
+   *   }
+   * });
+   * ```
+   *
+   * @param options The frame settings.
+   * @returns Iterator of frame payloads.
+   */
+  frames(options: DynamicBufferFrameOptions = {}): IterableIterator<Buffer> {
+    resolveFrameOptions(options);
+
+    return new class extends DynamicBufferIterator<Buffer> {
+      next(): IteratorResult<Buffer, any> {
+        const value = this.buf.tryReadFrame(options);
+        if (!value) {
+          return {
+            done: true,
+            value: undefined,
+          };
+        }
+
+        return {
+          done: false,
+          value,
+        };
+      }
+    }(this);
+  }
+
+  /**
+   * Gets the bit at the specified index, and the bit `0` is the most significant bit of the first
+   * byte. It returns `0` if the index is out of range.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0x80]));
+   * console.log(buf.getBit(0), buf.getBit(1), buf.getBit(100));
+   * // 1 0 0
+   * ```
+   *
+   * @param index The index of the bit.
+   * @returns The bit, `0` or `1`.
+   */
+  getBit(index: number): number {
+    checkRange('index', index, 0);
+
+    const byte = this.read(Math.floor(index / 8));
+
+    return byte === undefined ? 0 : getByteBit(byte, index % 8);
+  }
+
   /**
    * Returns a boolean value to indicate whether this buffer includes a certain value among it.
    *
@@ -650,7 +1754,48 @@ export class DynamicBuffer {
     byteOffset: number = 0,
     encoding: BufferEncoding = 'utf8',
   ): number {
-    return this.indexOfWithDir(true, value, byteOffset, encoding);
+    return this.indexOfWithDir(true, value, byteOffset, encoding);
+  }
+
+  /**
+   * Inserts data into this buffer at the specified offset, and the existing data after the offset
+   * will be moved backward.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello!');
+   * buf.insert(5, ' world');
+   * console.log(buf.toString());
+   * // Hello world!
+   * ```
+   *
+   * @param offset The position to insert data, and it must between `0` and `buf.length`.
+   * @param data String or buffer to insert into this buffer.
+   * @param length Maximum number of bytes to write, default the length of data.
+   * @param encoding The character encoding to use, default from buffer encoding.
+   * @returns The number of bytes written.
+   */
+  insert(
+    offset: number,
+    data: string | Buffer,
+    length?: number,
+    encoding?: BufferEncoding,
+  ): number {
+    checkRange('offset', offset, 0, this.used);
+
+    if (typeof data !== 'string' && !(data instanceof Buffer)) {
+      throw new TypeError('argument must be a string or a Buffer');
+    }
+
+    let bytes = typeof data === 'string' ? Buffer.from(data, encoding || this.encoding) : data;
+    if (length !== undefined && length >= 0 && length < bytes.length) {
+      bytes = bytes.subarray(0, length);
+    }
+
+    bytes = bytes.subarray(0, this.fitLength(this.used + bytes.length, bytes.length));
+
+    this.spliceData(offset, offset, bytes);
+
+    return bytes.length;
   }
 
   /**
@@ -682,12 +1827,17 @@ export class DynamicBuffer {
    * // 3
    * // 4
    *
+   * @param options Iterator settings, set `snapshot` to iterate over a copy of this buffer.
    * @returns Iterator of buffer keys.
    * ```
    */
-  keys(): IterableIterator<number> {
+  keys(options: DynamicBufferIteratorOptions = {}): IterableIterator<number> {
+    const buf = options.snapshot ? this.clone() : this;
+
     return new class extends DynamicBufferIterator<number> {
       next(): IteratorResult<number, any> {
+        this.checkModification();
+
         if (!this.buf.buffer || this.buf.used === this.index) {
           return {
             done: true,
@@ -703,7 +1853,7 @@ export class DynamicBuffer {
           value,
         };
       }
-    }(this);
+    }(buf, () => buf.modCount);
   }
 
   /**
@@ -733,6 +1883,59 @@ export class DynamicBuffer {
     return this.indexOfWithDir(false, value, byteOffset, encoding);
   }
 
+  /**
+   * Creates and returns an iterator that yields the lines in this buffer as `subarray` chunks
+   * without the line terminators. The lines are terminated by `\n`, or `\r\n` if the `crlf`
+   * option is set, and the last line will be yielded even if it has no terminator.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('GET / HTTP/1.1\r\nHost: example.com\r\n');
+   * for (const line of buf.lines({ crlf: true })) {
+   *   console.log(line.toString());
+   * }
+   * // GET / HTTP/1.1
+   * // Host: example.com
+   * ```
+   *
+   * @param options Set `crlf` to split lines by `\r\n`, and set `snapshot` to iterate over a copy
+   * of this buffer.
+   * @returns Iterator of lines.
+   */
+  lines(
+    options: DynamicBufferLineOptions & DynamicBufferIteratorOptions = {},
+  ): IterableIterator<Buffer> {
+    const buf = options.snapshot ? this.clone() : this;
+    const terminator = options.crlf ? '\r\n' : '\n';
+
+    return new class extends DynamicBufferIterator<Buffer> {
+      next(): IteratorResult<Buffer, any> {
+        this.checkModification();
+
+        if (!this.buf.buffer || this.buf.used <= this.index) {
+          return {
+            done: true,
+            value: undefined,
+          };
+        }
+
+        let end = this.buf.indexOfWithDir(true, terminator, this.index, 'utf8');
+        let nextIndex = end + terminator.length;
+        if (end === -1) {
+          end = this.buf.used;
+          nextIndex = end;
+        }
+
+        const value = this.buf.buffer.subarray(this.index, end);
+        this.index = nextIndex;
+
+        return {
+          done: false,
+          value,
+        };
+      }
+    }(buf, () => buf.modCount);
+  }
+
   /**
    * Calls a defined callback function on each byte of the buffer, and returns an array that
    * contains the results.
@@ -741,16 +1944,135 @@ export class DynamicBuffer {
    * callbackfn function one time for each byte in the buffer.
    * @param thisArg An object to which the this keyword can refer in the callbackfn function.
    * If thisArg is omitted, undefined is used as the this value.
+   * @param options Set `asDynamicBuffer` to `true` to get the result as a `DynamicBuffer`.
    */
   map(
     callbackfn: (value: number, index: number, array: Uint8Array) => number,
     thisArg?: any,
-  ): Uint8Array {
+  ): Uint8Array;
+
+  map(
+    callbackfn: (value: number, index: number, array: Uint8Array) => number,
+    thisArg: any,
+    options: DynamicBufferTransformOptions & { asDynamicBuffer: true },
+  ): DynamicBuffer;
+
+  map(
+    callbackfn: (value: number, index: number, array: Uint8Array) => number,
+    thisArg?: any,
+    options?: DynamicBufferTransformOptions,
+  ): Uint8Array | DynamicBuffer;
+
+  map(
+    callbackfn: (value: number, index: number, array: Uint8Array) => number,
+    thisArg?: any,
+    options?: DynamicBufferTransformOptions,
+  ): Uint8Array | DynamicBuffer {
+    let result: Uint8Array;
     if (!this.buffer || this.length === 0) {
-      return new Uint8Array(0);
+      result = new Uint8Array(0);
+    } else {
+      result = this.buffer.subarray(0, this.length).map(callbackfn, thisArg);
+    }
+
+    return options?.asDynamicBuffer ? new DynamicBuffer(result, this.getOptions()) : result;
+  }
+
+  /**
+   * Inverts all bits of this buffer in place.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0x0f]));
+   * buf.not();
+   * console.log(buf.toBuffer());
+   * // <Buffer f0>
+   * ```
+   *
+   * @returns The reference to this buffer.
+   */
+  not(): this {
+    if (this.buffer && this.used > 0) {
+      invertBits(this.buffer.subarray(0, this.used));
     }
 
-    return this.buffer.subarray(0, this.length).map(callbackfn, thisArg);
+    return this;
+  }
+
+  /**
+   * Performs bitwise OR between this buffer and the other buffer in place. This buffer will be
+   * extended with zero bytes if it's shorter than the other buffer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0xf0]));
+   * buf.or(Buffer.from([0x0f, 0x01]));
+   * console.log(buf.toBuffer());
+   * // <Buffer ff 01>
+   * ```
+   *
+   * @param other The other operand.
+   * @returns The reference to this buffer.
+   */
+  or(other: DynamicBuffer | Buffer | Uint8Array): this {
+    return this.combineBits(other, 'or');
+  }
+
+  /**
+   * Packs the values with the Python struct-style format string, and appends the packed data to
+   * the end of this buffer. The data will be written completely or not at all.
+   *
+   * The format string starts with an optional byte order character: `@` (native order with
+   * alignment, default), `=` (native order), `<` (little-endian), `>` or `!` (big-endian). Then
+   * it follows the format characters with optional repeat counts: `x` (pad byte), `c` (char),
+   * `b`/`B` (8-bit integer), `?` (boolean), `h`/`H` (16-bit integer), `i`/`I`/`l`/`L` (32-bit
+   * integer), `q`/`Q` (64-bit integer as BigInt), `f` (float), `d` (double), `s` (string with
+   * the count as its length), and `p` (pascal string). The standard sizes are used for all byte
+   * orders.
+   *
+   * ```js
+   * buf.pack('<IhH4s', 1, -2, 3, 'abcd');
+   * console.log(buf.toBuffer());
+   * // <Buffer 01 00 00 00 fe ff 03 00 61 62 63 64>
+   * ```
+   *
+   * @param format The format string.
+   * @param values The values to pack, a string of `s` or `p` will be encoded by the buffer
+   * encoding.
+   * @returns The number of bytes written, or `0` if the data is rejected because of the maximum
+   * size of the buffer.
+   */
+  pack(format: string, ...values: DynamicBufferPackValue[]): number {
+    const data = packFormat(format, values, this.encoding);
+    if (this.fitLength(this.used + data.length, data.length) < data.length) {
+      return 0;
+    }
+
+    return this.append(data);
+  }
+
+  /**
+   * Counts the number of set bits in this buffer between the specified bit indices, and the bit
+   * `0` is the most significant bit of the first byte.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0xff, 0x0f, 0x01]));
+   * console.log(buf.popcount(), buf.popcount(8), buf.popcount(4, 12));
+   * // 13 5 4
+   * ```
+   *
+   * @param start The bit index to start counting at, default `0`.
+   * @param end The bit index to stop counting at (not inclusive), default `buf.length * 8`.
+   * @returns The number of set bits.
+   */
+  popcount(start: number = 0, end: number = this.used * 8): number {
+    checkRange('start', start, 0);
+    checkRange('end', end, 0);
+
+    const endBit = end < this.used * 8 ? end : this.used * 8;
+    if (!this.buffer || endBit <= start) {
+      return 0;
+    }
+
+    return countBitRange(this.buffer, start, endBit);
   }
 
   /**
@@ -764,7 +2086,7 @@ export class DynamicBuffer {
    * ```
    *
    * @param data String to write to buffer.
-   * @param length Maximum number of bytes to write, default the length of string.
+   * @param length Maximum number of bytes to write, default the byte length of the data.
    * @param encoding The character encoding to use, default from buffer encoding.
    * @returns The number of bytes written.
    */
@@ -777,24 +2099,351 @@ export class DynamicBuffer {
       throw new TypeError('argument must be a string or a Buffer');
     }
 
-    let lengthToWrite = data.length || 0;
-    if (length !== undefined && length >= 0 && length <= data.length) {
-      lengthToWrite = length;
-    }
+    const bytes = typeof data === 'string' ? Buffer.from(data, encoding || this.encoding) : data;
+
+    let lengthToWrite = bytes.length;
+    if (length !== undefined && length >= 0 && length <= bytes.length) {
+      lengthToWrite = length;
+    }
+
+    lengthToWrite = this.fitLength(lengthToWrite + this.used, lengthToWrite);
+    if (lengthToWrite === 0) {
+      return 0;
+    }
+
+    this.ensureSize(lengthToWrite + this.used);
+
+    this.buffer?.copy(this.buffer, lengthToWrite, 0, this.used);
+
+    this.writeData(bytes, 0, lengthToWrite);
+
+    this.used += lengthToWrite;
+
+    return lengthToWrite;
+  }
+
+  /**
+   * Prepends a signed integer BigInt to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependBigInt64BE(value: bigint): number {
+    const data = Buffer.alloc(8);
+    data.writeBigInt64BE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a signed integer BigInt to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependBigInt64LE(value: bigint): number {
+    const data = Buffer.alloc(8);
+    data.writeBigInt64LE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends an unsigned integer BigInt to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependBigUInt64BE(value: bigint): number {
+    const data = Buffer.alloc(8);
+    data.writeBigUInt64BE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends an unsigned integer BigInt to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependBigUInt64LE(value: bigint): number {
+    const data = Buffer.alloc(8);
+    data.writeBigUInt64LE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a Javascript number to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependDoubleBE(value: number): number {
+    const data = Buffer.alloc(8);
+    data.writeDoubleBE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a Javascript number to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependDoubleLE(value: number): number {
+    const data = Buffer.alloc(8);
+    data.writeDoubleLE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a Javascript number to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependFloatBE(value: number): number {
+    const data = Buffer.alloc(4);
+    data.writeFloatBE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a Javascript number to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependFloatLE(value: number): number {
+    const data = Buffer.alloc(4);
+    data.writeFloatLE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 8-bits signed integer to the beginning of the buffer.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependInt8(value: number): number {
+    const data = Buffer.alloc(1);
+    data.writeInt8(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 16-bits signed integer to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependInt16BE(value: number): number {
+    const data = Buffer.alloc(2);
+    data.writeInt16BE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 16-bits signed integer to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependInt16LE(value: number): number {
+    const data = Buffer.alloc(2);
+    data.writeInt16LE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 32-bits signed integer to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependInt32BE(value: number): number {
+    const data = Buffer.alloc(4);
+    data.writeInt32BE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 32-bits signed integer to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependInt32LE(value: number): number {
+    const data = Buffer.alloc(4);
+    data.writeInt32LE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends `byteLength` bytes to the beginning of the buffer as a big-endian signed integer.
+   * Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependIntBE(value: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
+
+    const data = Buffer.alloc(byteLength);
+    data.writeIntBE(value, 0, byteLength);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends `byteLength` bytes to the beginning of the buffer as a little-endian signed
+   * integer. Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependIntLE(value: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
+
+    const data = Buffer.alloc(byteLength);
+    data.writeIntLE(value, 0, byteLength);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 8-bits unsigned integer to the beginning of the buffer.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependUInt8(value: number): number {
+    const data = Buffer.alloc(1);
+    data.writeUInt8(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 16-bits unsigned integer to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependUInt16BE(value: number): number {
+    const data = Buffer.alloc(2);
+    data.writeUInt16BE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 16-bits unsigned integer to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependUInt16LE(value: number): number {
+    const data = Buffer.alloc(2);
+    data.writeUInt16LE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 32-bits unsigned integer to the beginning of the buffer as big-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependUInt32BE(value: number): number {
+    const data = Buffer.alloc(4);
+    data.writeUInt32BE(value);
+
+    return this.prependValue(data);
+  }
+
+  /**
+   * Prepends a 32-bits unsigned integer to the beginning of the buffer as little-endian.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependUInt32LE(value: number): number {
+    const data = Buffer.alloc(4);
+    data.writeUInt32LE(value);
 
-    if (lengthToWrite === 0) {
-      return 0;
-    }
+    return this.prependValue(data);
+  }
 
-    this.ensureSize(lengthToWrite + this.used);
+  /**
+   * Prepends `byteLength` bytes to the beginning of the buffer as a big-endian unsigned
+   * integer. Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependUIntBE(value: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
 
-    this.buffer?.copy(this.buffer, lengthToWrite, 0, this.used);
+    const data = Buffer.alloc(byteLength);
+    data.writeUIntBE(value, 0, byteLength);
 
-    this.writeData(data, 0, lengthToWrite, encoding);
+    return this.prependValue(data);
+  }
 
-    this.used += lengthToWrite;
+  /**
+   * Prepends `byteLength` bytes to the beginning of the buffer as a little-endian unsigned
+   * integer. Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The number of bytes written, or `0` if the value is discarded because it exceeds
+   * the maximum size of the buffer.
+   */
+  prependUIntLE(value: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
 
-    return lengthToWrite;
+    const data = Buffer.alloc(byteLength);
+    data.writeUIntLE(value, 0, byteLength);
+
+    return this.prependValue(data);
   }
 
   /**
@@ -851,6 +2500,25 @@ export class DynamicBuffer {
     return this.buffer.readBigInt64LE(offset);
   }
 
+  /**
+   * Reads a signed LEB128 encoded BigInt from `buf` at the specified `offset`, and the length of
+   * the encoded value is not limited.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(new Uint8Array([0xc0, 0xbb, 0x78]));
+   * console.log(buf.readBigSLEB128());
+   * // { value: -123456n, bytesRead: 3 }
+   * ```
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @returns The value read from the buffer, and the number of bytes read.
+   */
+  readBigSLEB128(offset: number = 0): DynamicBufferReadResult<bigint> {
+    const { value, bytesRead } = this.readLEB128(offset, undefined, true);
+
+    return { value: toSigned(value, bytesRead), bytesRead };
+  }
+
   /**
    * Reads an unsigned, big-dian 64-bit integer from `buf` at the specified `offset`.
    *
@@ -885,6 +2553,82 @@ export class DynamicBuffer {
     return this.buffer.readBigUInt64LE(offset);
   }
 
+  /**
+   * Reads an unsigned LEB128 encoded BigInt from `buf` at the specified `offset`, and the length
+   * of the encoded value is not limited.
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @returns The value read from the buffer, and the number of bytes read.
+   */
+  readBigULEB128(offset: number = 0): DynamicBufferReadResult<bigint> {
+    return this.readLEB128(offset);
+  }
+
+  /**
+   * Reads a zigzag encoded signed 64-bit variable-length integer as BigInt from `buf` at the
+   * specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @returns The value read from the buffer, and the number of bytes read.
+   */
+  readBigVarInt64(offset: number = 0): DynamicBufferReadResult<bigint> {
+    const { value, bytesRead } = this.readBigVarUInt64(offset);
+
+    return { value: zigzagDecode(value), bytesRead };
+  }
+
+  /**
+   * Reads an unsigned 64-bit variable-length integer as BigInt from `buf` at the specified
+   * `offset`, and the encoded value must not be longer than 10 bytes.
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @returns The value read from the buffer, and the number of bytes read.
+   */
+  readBigVarUInt64(offset: number = 0): DynamicBufferReadResult<bigint> {
+    const result = this.readLEB128(offset, 10);
+
+    if (result.value > 0xffffffffffffffffn) {
+      throw new RangeError('The variable-length integer is out of range of 64-bit integer');
+    }
+
+    return result;
+  }
+
+  /**
+   * Reads a null-terminated (C-style) string from `buf` at the specified `offset`. The terminator
+   * is 2 bytes for UTF-16 encodings, and 1 byte for others.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from('Hello\0world\0'));
+   * console.log(buf.readCString(6));
+   * // { value: 'world', bytesRead: 6 }
+   * ```
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @param encoding The character encoding of the string, default from buffer encoding.
+   * @returns The string without the terminator, and the number of bytes read including the
+   * terminator.
+   */
+  readCString(
+    offset: number = 0,
+    encoding: BufferEncoding | undefined = this.encoding,
+  ): DynamicBufferReadResult<string> {
+    checkRange('offset', offset, 0);
+
+    const size = nullTerminatorSize(encoding || 'utf8');
+    const end = this.buffer && offset < this.used
+      ? findNullTerminator(this.subarray(0, this.used), offset, size)
+      : -1;
+    if (end === -1) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+
+    return {
+      value: this.toString(encoding, offset, end),
+      bytesRead: end - offset + size,
+    };
+  }
+
   /**
    * Reads a 64-bit, big-endian double from `buf` at the specified `offset`.
    *
@@ -1078,6 +2822,71 @@ export class DynamicBuffer {
     return this.buffer.readIntLE(offset, byteLength);
   }
 
+  /**
+   * Reads a line from the start of this buffer, and removes the line and its terminator from
+   * this buffer. It returns `undefined` and keeps the data if there is no complete line.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('PING\r\nPON');
+   * console.log(buf.readLine({ crlf: true })?.toString());
+   * // PING
+   * console.log(buf.readLine({ crlf: true }));
+   * // undefined
+   * ```
+   *
+   * @param options Set `crlf` to use `\r\n` as the line terminator instead of `\n`.
+   * @returns The line without the terminator, or `undefined` if no terminator found.
+   */
+  readLine(options: DynamicBufferLineOptions = {}): Buffer | undefined {
+    return this.readUntil(options.crlf ? '\r\n' : '\n');
+  }
+
+  /**
+   * Reads a length-prefixed (Pascal-style) string from `buf` at the specified `offset`.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([5, 0x48, 0x65, 0x6c, 0x6c, 0x6f]));
+   * console.log(buf.readPString());
+   * // { value: 'Hello', bytesRead: 6 }
+   * ```
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @param options The type of the length prefix (`'u8'` by default, `'u16le'` or `'varint'`),
+   * and the character encoding.
+   * @returns The string, and the number of bytes read including the prefix.
+   */
+  readPString(
+    offset: number = 0,
+    options: DynamicBufferPStringOptions = {},
+  ): DynamicBufferReadResult<string> {
+    const { prefix = 'u8', encoding = this.encoding } = options;
+
+    let length: DynamicBufferReadResult<number>;
+    switch (prefix) {
+      case 'u8':
+        length = { value: this.readUInt8(offset), bytesRead: 1 };
+        break;
+      case 'u16le':
+        length = { value: this.readUInt16LE(offset), bytesRead: 2 };
+        break;
+      case 'varint':
+        length = this.readVarUInt(offset);
+        break;
+      default:
+        throw new Error('Invalid string prefix');
+    }
+
+    const start = offset + length.bytesRead;
+    if (start + length.value > this.used) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+
+    return {
+      value: this.toString(encoding, start, start + length.value),
+      bytesRead: length.bytesRead + length.value,
+    };
+  }
+
   /**
    * Reads an unsigned 8-bit integer from `buf` at the specified `offset`.
    *
@@ -1203,6 +3012,87 @@ export class DynamicBuffer {
     return this.buffer.readUIntLE(offset, byteLength);
   }
 
+  /**
+   * Reads the data before the first occurrence of the delimiter from the start of this buffer,
+   * and removes the data and the delimiter from this buffer. It returns `undefined` and keeps the
+   * data if the delimiter is not found.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('record1\0record2\0rec');
+   * console.log(buf.readUntil(0)?.toString());
+   * // record1
+   * console.log(buf.readUntil(0)?.toString());
+   * // record2
+   * console.log(buf.readUntil(0), buf.toString());
+   * // undefined rec
+   * ```
+   *
+   * @param delimiter The delimiter to search for, a string will be encoded as UTF-8.
+   * @returns A copy of the data before the delimiter, or `undefined` if no delimiter found.
+   */
+  readUntil(
+    delimiter: string | Buffer | Uint8Array | number | DynamicBuffer,
+  ): Buffer | undefined {
+    const search = toSearchBuffer('delimiter', delimiter);
+
+    const index = this.indexOfWithDir(true, search, 0, 'utf8');
+    if (index === -1) {
+      return undefined;
+    }
+
+    const data = Buffer.from(this.subarray(0, index));
+    this.remove(0, index + search.length);
+
+    return data;
+  }
+
+  /**
+   * Reads a zigzag encoded signed variable-length integer from `buf` at the specified `offset`,
+   * and the value must be a safe integer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(new Uint8Array([0x03]));
+   * console.log(buf.readVarInt());
+   * // { value: -2, bytesRead: 1 }
+   * ```
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @returns The value read from the buffer, and the number of bytes read.
+   */
+  readVarInt(offset: number = 0): DynamicBufferReadResult<number> {
+    const { value, bytesRead } = this.readLEB128(offset, MaxVarUIntBytes);
+    const decoded = zigzagDecode(value);
+
+    if (decoded > BigInt(Number.MAX_SAFE_INTEGER) || decoded < BigInt(Number.MIN_SAFE_INTEGER)) {
+      throw new RangeError('The variable-length integer is out of range of safe integer');
+    }
+
+    return { value: Number(decoded), bytesRead };
+  }
+
+  /**
+   * Reads an unsigned variable-length integer from `buf` at the specified `offset`, and the value
+   * must be a safe integer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(new Uint8Array([0xac, 0x02]));
+   * console.log(buf.readVarUInt());
+   * // { value: 300, bytesRead: 2 }
+   * ```
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @returns The value read from the buffer, and the number of bytes read.
+   */
+  readVarUInt(offset: number = 0): DynamicBufferReadResult<number> {
+    const { value, bytesRead } = this.readLEB128(offset, MaxVarUIntBytes);
+
+    if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+      throw new RangeError('The variable-length integer is out of range of safe integer');
+    }
+
+    return { value: Number(value), bytesRead };
+  }
+
   /**
    * Calls the specified callback function for all the bytes in an buffer. The return value of
    * the callback function is the accumulated result, and is provided as an argument in the next
@@ -1330,45 +3220,233 @@ export class DynamicBuffer {
   }
 
   /**
-   * Reverses the buffer in place and returns the reference to the buffer. The first byte in the
-   * buffer now becoming the last, and the last byte in the buffer becoming the first.
+   * Removes the bytes between `start` and `end` from this buffer, and the data after the removed
+   * bytes will be moved forward.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * buf.remove(5);
+   * console.log(buf.toString());
+   * // Hello
+   * buf.remove(-2);
+   * console.log(buf.toString());
+   * // Hel
+   * ```
+   *
+   * @param start Where to start removing, default `0`. If it's negative, it is treated as
+   * `buf.length + start`.
+   * @param end Where to stop removing (not inclusive), default the length of this buffer. If it's
+   * negative, it is treated as `buf.length + end`.
+   * @returns The number of bytes removed.
+   */
+  remove(start: number = 0, end: number = this.used): number {
+    const { startOffset, endOffset } = this.calculateOffsets(
+      start < 0 ? this.used + start : start,
+      end < 0 ? this.used + end : end,
+    );
+    if (endOffset <= startOffset) {
+      return 0;
+    }
+    if (startOffset === 0) {
+      return this.consume(endOffset);
+    }
+
+    this.spliceData(startOffset, endOffset);
+
+    return endOffset - startOffset;
+  }
+
+  /**
+   * Increases the capacity of this buffer to at least the specified size without changing the
+   * length of this buffer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * buf.reserve(1024);
+   * console.log(buf.length, buf.capacity);
+   * // 0 1024
+   * ```
+   *
+   * @param size The minimum capacity of this buffer.
+   * @returns The reference to this buffer.
+   */
+  reserve(size: number): this {
+    checkRange('size', size, 0);
+
+    if (size > this.limit) {
+      throw new DynamicBufferOverflowError(size, this.limit);
+    }
+
+    if (size > this.size) {
+      this.resize(size);
+    }
+
+    return this;
+  }
+
+  /**
+   * Reverses the buffer in place and returns the reference to the buffer. The first byte in the
+   * buffer now becoming the last, and the last byte in the buffer becoming the first.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('ABC');
+   * console.log(buf.reverse().toString());
+   * // CBA
+   * console.log(buf.toString());
+   * // CBA
+   * ```
+   *
+   * @returns The reference to this buffer.
+   */
+  reverse(): this {
+    if (!this.buffer || this.length === 0) {
+      return this;
+    }
+
+    this.buffer.subarray(0, this.length).reverse();
+
+    return this;
+  }
+
+  /**
+   * Sets a value or an array of values.
+   *
+   * @param array A typed or untyped array of values to set.
+   * @param offset The index in the current array at which the values are to be written.
+   */
+  set(array: ArrayLike<number>, offset: number = 0): void {
+    if (array.length > 0) {
+      checkBounds('offset', offset, 0, this.length - array.length);
+    }
+
+    if (!this.buffer || this.length <= 0) {
+      return;
+    }
+
+    this.subarray(0, this.length).set(array, offset);
+  }
+
+  /**
+   * Sets or clears the bit at the specified index, and the bit `0` is the most significant bit of
+   * the first byte. This buffer will be extended with zero bytes if the index is out of range.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * buf.setBit(9);
+   * console.log(buf.toBuffer());
+   * // <Buffer 00 40>
+   * ```
+   *
+   * @param index The index of the bit.
+   * @param value Sets the bit if it's truthy, or clears the bit. Default `true`.
+   * @returns The reference to this buffer.
+   */
+  setBit(index: number, value: boolean | number = true): this {
+    checkRange('index', index, 0);
+
+    const offset = Math.floor(index / 8);
+    this.zeroExtend(offset + 1);
+
+    if (this.buffer) {
+      this.buffer[offset] = setByteBit(this.buffer[offset], index % 8, !!value);
+    }
+
+    return this;
+  }
+
+  /**
+   * Sets the length of this buffer. The data after the new length will be discarded if the new
+   * length is less than the current length, and the new bytes will be filled with the fill value
+   * of this buffer if the new length is greater than the current length.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello');
+   * buf.setLength(7);
+   * console.log(buf.toBuffer());
+   * // <Buffer 48 65 6c 6c 6f 00 00>
+   * ```
+   *
+   * @param length The new length of this buffer.
+   * @returns The reference to this buffer.
+   */
+  setLength(length: number): this {
+    checkRange('length', length, 0);
+
+    if (length > this.limit) {
+      throw new DynamicBufferOverflowError(length, this.limit);
+    }
+
+    if (length > this.used) {
+      this.ensureSize(length);
+      this.buffer?.fill(this.fillVal || 0, this.used, length, this.encoding);
+    }
+
+    this.used = length;
+
+    return this;
+  }
+
+  /**
+   * Removes the specified number of bytes from the start of this buffer, and returns a copy of
+   * the removed bytes.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * console.log(buf.shift(6).toString(), buf.toString());
+   * // Hello  world
+   * ```
+   *
+   * @param length The number of bytes to remove.
+   * @returns The removed bytes.
+   */
+  shift(length: number): Buffer {
+    checkRange('length', length, 0);
+
+    const data = Buffer.from(this.subarray(0, length < this.used ? length : this.used));
+    this.consume(data.length);
+
+    return data;
+  }
+
+  /**
+   * Reduces the capacity of this buffer to its length to free the unused memory.
    *
    * ```js
-   * const buf = new DynamicBuffer('ABC');
-   * console.log(buf.reverse().toString());
-   * // CBA
-   * console.log(buf.toString());
-   * // CBA
+   * const buf = new DynamicBuffer('Hello');
+   * buf.shrinkToFit();
+   * console.log(buf.capacity);
+   * // 5
    * ```
    *
    * @returns The reference to this buffer.
    */
-  reverse(): this {
-    if (!this.buffer || this.length === 0) {
-      return this;
+  shrinkToFit(): this {
+    if (this.size > this.used || this.head > 0) {
+      this.resize(this.used);
     }
 
-    this.buffer.subarray(0, this.length).reverse();
-
     return this;
   }
 
   /**
-   * Sets a value or an array of values.
+   * Returns a new buffer with a copy of the data between the start and end indices, and the new
+   * buffer has the same settings of this buffer. Unlike `subarray`, modifying the new buffer will
+   * not affect this buffer.
    *
-   * @param array A typed or untyped array of values to set.
-   * @param offset The index in the current array at which the values are to be written.
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * const slice = buf.slice(0, 5);
+   * slice.append('!');
+   * console.log(buf.toString(), slice.toString());
+   * // Hello world Hello!
+   * ```
+   *
+   * @param start Where the new buffer will start, default 0.
+   * @param end Where the new buffer will end (not inclusive), default the length of this buffer.
+   * @returns The new buffer.
    */
-  set(array: ArrayLike<number>, offset: number = 0): void {
-    if (array.length > 0) {
-      checkBounds('offset', offset, 0, this.length - array.length);
-    }
-
-    if (!this.buffer || this.length <= 0) {
-      return;
-    }
-
-    this.subarray(0, this.length).set(array, offset);
+  slice(start: number = 0, end: number = this.length): DynamicBuffer {
+    return new DynamicBuffer(this.subarray(start, end), this.getOptions());
   }
 
   /**
@@ -1414,6 +3492,115 @@ export class DynamicBuffer {
     return this;
   }
 
+  /**
+   * Changes the content of this buffer by removing bytes and inserting new bytes in place, like
+   * `Array.prototype.splice()`.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * const removed = buf.splice(5, 6, 0x21);
+   * console.log(removed.toString(), buf.toString());
+   * //  world Hello!
+   * ```
+   *
+   * @param start The position to start changing the buffer, and it'll be calculated from the end
+   * of buffer if it's negative.
+   * @param deleteCount The number of bytes to remove from start, default all bytes from start to
+   * the end of this buffer.
+   * @param items The bytes to insert into this buffer at start.
+   * @returns A new buffer contains the removed bytes.
+   */
+  splice(start: number, deleteCount?: number, ...items: number[]): Buffer {
+    let startOffset = start < 0 ? this.used + start : start;
+    if (startOffset < 0) {
+      startOffset = 0;
+    } else if (startOffset > this.used) {
+      startOffset = this.used;
+    }
+
+    let endOffset = this.used;
+    if (deleteCount !== undefined) {
+      endOffset = startOffset + (deleteCount > 0 ? deleteCount : 0);
+      if (endOffset > this.used) {
+        endOffset = this.used;
+      }
+    }
+
+    const newUsed = this.used - (endOffset - startOffset) + items.length;
+    const insertLength = this.fitLength(newUsed, items.length);
+    if (insertLength < items.length && this.overflow === 'reject') {
+      return Buffer.alloc(0);
+    }
+
+    const removed = this.toBuffer(startOffset, endOffset);
+    this.spliceData(startOffset, endOffset, Buffer.from(items.slice(0, insertLength)));
+
+    return removed;
+  }
+
+  /**
+   * Splits this buffer into `subarray` chunks by the separator.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('a,b,,c');
+   * console.log(buf.split(',').map((item) => item.toString()));
+   * // ['a', 'b', '', 'c']
+   * console.log(buf.split(',', 2).map((item) => item.toString()));
+   * // ['a', 'b']
+   * ```
+   *
+   * @param separator The separator to search for, a string will be encoded as UTF-8.
+   * @param limit The maximum number of chunks to return, default no limit.
+   * @param options Set `asDynamicBuffer` to `true` to get the chunks as copies in `DynamicBuffer`.
+   * @returns The chunks between the separators.
+   */
+  split(
+    separator: string | Buffer | Uint8Array | number | DynamicBuffer,
+    limit?: number,
+  ): Buffer[];
+
+  split(
+    separator: string | Buffer | Uint8Array | number | DynamicBuffer,
+    limit: number | undefined,
+    options: DynamicBufferTransformOptions & { asDynamicBuffer: true },
+  ): DynamicBuffer[];
+
+  split(
+    separator: string | Buffer | Uint8Array | number | DynamicBuffer,
+    limit?: number,
+    options?: DynamicBufferTransformOptions,
+  ): Buffer[] | DynamicBuffer[];
+
+  split(
+    separator: string | Buffer | Uint8Array | number | DynamicBuffer,
+    limit?: number,
+    options?: DynamicBufferTransformOptions,
+  ): Buffer[] | DynamicBuffer[] {
+    const search = toSearchBuffer('separator', separator);
+    if (limit !== undefined) {
+      checkRange('limit', limit, 0);
+    }
+
+    const result: Buffer[] = [];
+    let start = 0;
+    while (limit === undefined || result.length < limit) {
+      const index = this.indexOfWithDir(true, search, start, 'utf8');
+      if (index === -1) {
+        result.push(this.subarray(start));
+        break;
+      }
+
+      result.push(this.subarray(start, index));
+      start = index + search.length;
+    }
+
+    if (options?.asDynamicBuffer) {
+      return result.map((item) => new DynamicBuffer(item, this.getOptions()));
+    }
+
+    return result;
+  }
+
   /**
    * Returns a new Buffer that references the same memory as the original, but offset and cropped
    * by the start and end indices.
@@ -1570,6 +3757,24 @@ export class DynamicBuffer {
     return newBuffer;
   }
 
+  /**
+   * Flips the bit at the specified index, and the bit `0` is the most significant bit of the
+   * first byte. This buffer will be extended with zero bytes if the index is out of range.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0x0f]));
+   * buf.toggleBit(0).toggleBit(7);
+   * console.log(buf.toBuffer());
+   * // <Buffer 8e>
+   * ```
+   *
+   * @param index The index of the bit.
+   * @returns The reference to this buffer.
+   */
+  toggleBit(index: number): this {
+    return this.setBit(index, this.getBit(index) === 0);
+  }
+
   /**
    * Returns a JSON representation of this buffer.
    *
@@ -1616,6 +3821,22 @@ export class DynamicBuffer {
     return this.toString();
   }
 
+  /**
+   * Creates a web `ReadableStream` that emits the data of this buffer, it accepts the same
+   * options as `createReadStream`, including the live mode.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * const res = new Response(buf.toReadableStream());
+   * ```
+   *
+   * @param options The options of the stream.
+   * @returns The web readable stream.
+   */
+  toReadableStream(options: DynamicBufferReadStreamOptions = {}): ReadableStream<Uint8Array> {
+    return Readable.toWeb(this.createReadStream(options)) as ReadableStream<Uint8Array>;
+  }
+
   /**
    * Decodes buffer to a string with the specified character encoding and range.
    *
@@ -1647,9 +3868,118 @@ export class DynamicBuffer {
     return this.buffer.toString(encoding, startOffset, endOffset);
   }
 
+  /**
+   * Creates a web `WritableStream` that appends all written data to the end of this buffer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * await res.body.pipeTo(buf.toWritableStream());
+   * ```
+   *
+   * @returns The web writable stream.
+   */
+  toWritableStream(): WritableStream<Uint8Array> {
+    return Writable.toWeb(this.createWriteStream());
+  }
+
+  /**
+   * Discards the data after the specified length, and it does nothing if the length is greater
+   * than or equal to the current length.
+   *
+   * ```js
+   * const buf = new DynamicBuffer('Hello world');
+   * buf.truncate(5);
+   * console.log(buf.toString());
+   * // Hello
+   * ```
+   *
+   * @param length The maximum length of this buffer, default `0`.
+   * @returns The reference to this buffer.
+   */
+  truncate(length: number = 0): this {
+    checkRange('length', length, 0);
+
+    if (length < this.used) {
+      this.used = length;
+    }
+
+    return this;
+  }
+
+  /**
+   * Reads and removes a complete frame (length prefix and payload) from the start of this buffer,
+   * or returns `undefined` and keeps the data if the frame is not complete. It throws a
+   * `DynamicBufferFrameSizeError` if the payload length exceeds the maximum frame size.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * buf.writeFrame('Hello', { prefix: 'u16be' });
+   * buf.append(Buffer.from([0x00, 0x05, 0x77]));
+   *
+   * console.log(buf.tryReadFrame({ prefix: 'u16be' })?.toString());
+   * // Hello
+   * console.log(buf.tryReadFrame({ prefix: 'u16be' }));
+   * // undefined
+   * ```
+   *
+   * @param options The frame settings.
+   * @returns A copy of the frame payload, or `undefined` if there is no complete frame.
+   */
+  tryReadFrame(options: DynamicBufferFrameOptions = {}): Buffer | undefined {
+    const { prefix, maxFrameSize } = resolveFrameOptions(options);
+
+    const header = this.readFrameLength(prefix);
+    if (!header) {
+      return undefined;
+    }
+    if (header.value > maxFrameSize) {
+      throw new DynamicBufferFrameSizeError(header.value, maxFrameSize);
+    }
+
+    const end = header.bytesRead + header.value;
+    if (end > this.length) {
+      return undefined;
+    }
+
+    const payload = Buffer.from(this.subarray(header.bytesRead, end));
+    this.remove(0, end);
+
+    return payload;
+  }
+
+  /**
+   * Unpacks the values from this buffer at the specified offset with the Python struct-style
+   * format string, see `buf.pack()` for the format details. The values of `s`, `p` and `c` are
+   * returned as `Buffer`, `q` and `Q` as `bigint`, and `?` as `boolean`.
+   *
+   * ```js
+   * buf.pack('<IhH4s', 1, -2, 3, 'abcd');
+   * console.log(buf.unpack('<IhH4s'));
+   * // [ 1, -2, 3, <Buffer 61 62 63 64> ]
+   * ```
+   *
+   * @param format The format string.
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - DynamicBuffer.calcsize(format)`, default `0`.
+   * @returns The unpacked values.
+   */
+  unpack(format: string, offset: number = 0): DynamicBufferPackValue[] {
+    const size = calcFormatSize(format);
+    if (this.used < size) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+
+    checkRange('offset', offset, 0, this.used - size);
+
+    return unpackFormat(format, this.subarray(offset, offset + size));
+  }
+
   /**
    * Creates and returns an iterator for values(bytes) in this buffer.
    *
+   * It throws a `DynamicBufferConcurrentModificationError` if this buffer has been resized,
+   * truncated, or shifted during iteration, unless the `snapshot` option is set.
+   *
    * ```js
    * buf.append('Hello');
    * for (const value of buf.values()) {
@@ -1661,12 +3991,17 @@ export class DynamicBuffer {
    * // 108
    * // 111
    *
+   * @param options Iterator settings, set `snapshot` to iterate over a copy of this buffer.
    * @returns Iterator of buffer values.
    * ```
    */
-  values(): IterableIterator<number> {
+  values(options: DynamicBufferIteratorOptions = {}): IterableIterator<number> {
+    const buf = options.snapshot ? this.clone() : this;
+
     return new class extends DynamicBufferIterator<number> {
       next(): IteratorResult<number, any> {
+        this.checkModification();
+
         if (!this.buf.buffer || this.buf.used === this.index) {
           return {
             done: true,
@@ -1682,7 +4017,7 @@ export class DynamicBuffer {
           value,
         };
       }
-    }(this);
+    }(buf, () => buf.modCount);
   }
 
   /**
@@ -1699,19 +4034,23 @@ export class DynamicBuffer {
    *
    * @param data String to write to buffer.
    * @param offset Number of bytes to skip before starting to write data, default 0.
-   * @param length Maximum number of bytes to write, default the length of string.
+   * @param length Maximum number of bytes to write, default the byte length of the data.
    * @param encoding The character encoding to use, default from buffer encoding.
    * @returns Number of bytes written.
    */
   write(
     data: string | Buffer,
     offset: number = 0,
-    length: number = data.length,
+    length: number | undefined = undefined,
     encoding: BufferEncoding | undefined = this.encoding,
   ): number {
     checkRange('offset', offset, 0);
 
     const count = this.writeData(data, offset, length, encoding);
+    if (count < 0) {
+      return 0;
+    }
+
     this.used = offset + count;
 
     return count;
@@ -1728,6 +4067,10 @@ export class DynamicBuffer {
   writeBigInt64BE(value: bigint, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 8, 8) < 8) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 8 > this.size) {
       this.ensureSize(offset + 8);
     }
@@ -1750,6 +4093,10 @@ export class DynamicBuffer {
   writeBigInt64LE(value: bigint, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 8, 8) < 8) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 8 > this.size) {
       this.ensureSize(offset + 8);
     }
@@ -1761,6 +4108,21 @@ export class DynamicBuffer {
     return ret;
   }
 
+  /**
+   * Writes a BigInt to the buffer at the specified offset as signed LEB128, and the length of the
+   * encoded value is not limited.
+   *
+   * @param value The number to be written to buffer.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @returns `offset` plus the number of bytes written.
+   */
+  writeBigSLEB128(value: bigint, offset: number = 0): number {
+    checkRange('offset', offset, 0);
+
+    return this.writeBytes(encodeSLEB128(value), offset);
+  }
+
   /**
    * Writes an unsigned integer BigInt to the buffer at the specified offset as big-endian.
    *
@@ -1772,6 +4134,10 @@ export class DynamicBuffer {
   writeBigUInt64BE(value: bigint, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 8, 8) < 8) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 8 > this.size) {
       this.ensureSize(offset + 8);
     }
@@ -1794,6 +4160,10 @@ export class DynamicBuffer {
   writeBigUInt64LE(value: bigint, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 8, 8) < 8) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 8 > this.size) {
       this.ensureSize(offset + 8);
     }
@@ -1805,6 +4175,99 @@ export class DynamicBuffer {
     return ret;
   }
 
+  /**
+   * Writes a non-negative BigInt to the buffer at the specified offset as unsigned LEB128, and the
+   * length of the encoded value is not limited.
+   *
+   * @param value The number to be written to buffer, and it must greater than or equal to `0`.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @returns `offset` plus the number of bytes written.
+   */
+  writeBigULEB128(value: bigint, offset: number = 0): number {
+    checkRange('offset', offset, 0);
+
+    if (value < 0n) {
+      throw new RangeError(`The value of 'value' is out of range. It must be >= 0. Received ${value}`);
+    }
+
+    return this.writeBytes(encodeULEB128(value), offset);
+  }
+
+  /**
+   * Writes a signed 64-bit BigInt to the buffer at the specified offset as zigzag encoded
+   * variable-length integer.
+   *
+   * @param value The number to be written to buffer.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @returns `offset` plus the number of bytes written.
+   */
+  writeBigVarInt64(value: bigint, offset: number = 0): number {
+    checkRange('offset', offset, 0);
+
+    if (value < -0x8000000000000000n || value > 0x7fffffffffffffffn) {
+      throw new RangeError(`The value of 'value' is out of range. It must be >= -(2 ** 63) and <= 2 ** 63 - 1. Received ${value}`);
+    }
+
+    return this.writeBytes(encodeULEB128(zigzagEncode(value)), offset);
+  }
+
+  /**
+   * Writes an unsigned 64-bit BigInt to the buffer at the specified offset as variable-length
+   * integer.
+   *
+   * @param value The number to be written to buffer.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @returns `offset` plus the number of bytes written.
+   */
+  writeBigVarUInt64(value: bigint, offset: number = 0): number {
+    checkRange('offset', offset, 0);
+
+    if (value < 0n || value > 0xffffffffffffffffn) {
+      throw new RangeError(`The value of 'value' is out of range. It must be >= 0 and <= 2 ** 64 - 1. Received ${value}`);
+    }
+
+    return this.writeBytes(encodeULEB128(value), offset);
+  }
+
+  /**
+   * Writes a null-terminated (C-style) string to the buffer at the specified offset. The string
+   * will be discarded if it can't be written completely because of the maximum size.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * console.log(buf.writeCString('Hello'));
+   * // 6
+   * console.log(buf.toBuffer());
+   * // <Buffer 48 65 6c 6c 6f 00>
+   * ```
+   *
+   * @param value The string to write, and it must not contain null characters after encoding.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @param encoding The character encoding to use, default from buffer encoding.
+   * @returns `offset` plus the number of bytes written, including the terminator.
+   */
+  writeCString(
+    value: string,
+    offset: number = 0,
+    encoding: BufferEncoding | undefined = this.encoding,
+  ): number {
+    checkRange('offset', offset, 0);
+
+    const data = Buffer.from(value, encoding);
+    const size = nullTerminatorSize(encoding || 'utf8');
+    if (findNullTerminator(data, 0, size) !== -1) {
+      throw new TypeError('The C string must not contain null characters');
+    }
+
+    const terminator = Buffer.alloc(size);
+
+    return this.writeBytes(Buffer.concat([data, terminator]), offset);
+  }
+
   /**
    * Writes a Javascript number to the buffer at the specified offset as big-endian.
    *
@@ -1816,6 +4279,10 @@ export class DynamicBuffer {
   writeDoubleBE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 8, 8) < 8) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 8 > this.size) {
       this.ensureSize(offset + 8);
     }
@@ -1838,6 +4305,10 @@ export class DynamicBuffer {
   writeDoubleLE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 8, 8) < 8) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 8 > this.size) {
       this.ensureSize(offset + 8);
     }
@@ -1860,6 +4331,10 @@ export class DynamicBuffer {
   writeFloatBE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 4, 4) < 4) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 4 > this.size) {
       this.ensureSize(offset + 4);
     }
@@ -1882,15 +4357,61 @@ export class DynamicBuffer {
   writeFloatLE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 4, 4) < 4) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 4 > this.size) {
       this.ensureSize(offset + 4);
     }
 
     const ret = this.buffer?.writeFloatLE(value, offset) || 0;
 
-    this.used = ret > this.used ? ret : this.used;
+    this.used = ret > this.used ? ret : this.used;
+
+    return ret;
+  }
+
+  /**
+   * Appends a frame to the end of this buffer, the frame is the payload length encoded as the
+   * prefix followed by the payload. The frame will be written completely or not at all.
+   *
+   * ```js
+   * buf.writeFrame('Hello', { prefix: 'u32be' });
+   * console.log(buf.toBuffer());
+   * // <Buffer 00 00 00 05 48 65 6c 6c 6f>
+   * ```
+   *
+   * @param payload The payload of the frame, a string will be encoded by the buffer encoding.
+   * @param options The frame settings.
+   * @returns The number of bytes written, or `0` if the frame is rejected because of the maximum
+   * size of the buffer.
+   */
+  writeFrame(
+    payload: string | Buffer | Uint8Array | DynamicBuffer,
+    options: DynamicBufferFrameOptions = {},
+  ): number {
+    const { prefix, maxFrameSize } = resolveFrameOptions(options);
+
+    let data: Buffer;
+    if (typeof payload === 'string') {
+      data = Buffer.from(payload, this.encoding);
+    } else if (payload instanceof DynamicBuffer) {
+      data = payload.subarray();
+    } else {
+      data = Buffer.from(payload.buffer, payload.byteOffset, payload.byteLength);
+    }
+
+    if (data.length > maxFrameSize) {
+      throw new DynamicBufferFrameSizeError(data.length, maxFrameSize);
+    }
+
+    const frame = Buffer.concat([encodeFramePrefix(prefix, data.length), data]);
+    if (this.fitLength(this.used + frame.length, frame.length) < frame.length) {
+      return 0;
+    }
 
-    return ret;
+    return this.append(frame);
   }
 
   /**
@@ -1904,6 +4425,10 @@ export class DynamicBuffer {
   writeInt8(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 1, 1) < 1) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 1 > this.size) {
       this.ensureSize(offset + 1);
     }
@@ -1926,6 +4451,10 @@ export class DynamicBuffer {
   writeInt16BE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 2, 2) < 2) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 2 > this.size) {
       this.ensureSize(offset + 2);
     }
@@ -1948,6 +4477,10 @@ export class DynamicBuffer {
   writeInt16LE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 2, 2) < 2) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 2 > this.size) {
       this.ensureSize(offset + 2);
     }
@@ -1970,6 +4503,10 @@ export class DynamicBuffer {
   writeInt32BE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 4, 4) < 4) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 4 > this.size) {
       this.ensureSize(offset + 4);
     }
@@ -1992,6 +4529,10 @@ export class DynamicBuffer {
   writeInt32LE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 4, 4) < 4) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 4 > this.size) {
       this.ensureSize(offset + 4);
     }
@@ -2016,6 +4557,10 @@ export class DynamicBuffer {
     checkRange('offset', offset, 0);
     checkRange('byteLength', byteLength, 1, 6);
 
+    if (this.fitLength(offset + byteLength, byteLength) < byteLength) {
+      return offset;
+    }
+
     if (!this.buffer || offset + byteLength > this.size) {
       this.ensureSize(offset + byteLength);
     }
@@ -2040,6 +4585,10 @@ export class DynamicBuffer {
     checkRange('offset', offset, 0);
     checkRange('byteLength', byteLength, 1, 6);
 
+    if (this.fitLength(offset + byteLength, byteLength) < byteLength) {
+      return offset;
+    }
+
     if (!this.buffer || offset + byteLength > this.size) {
       this.ensureSize(offset + byteLength);
     }
@@ -2051,6 +4600,46 @@ export class DynamicBuffer {
     return ret;
   }
 
+  /**
+   * Writes a length-prefixed (Pascal-style) string to the buffer at the specified offset. The
+   * string will be discarded if it can't be written completely because of the maximum size.
+   *
+   * ```js
+   * const buf = new DynamicBuffer();
+   * console.log(buf.writePString('Hello', 0, { prefix: 'u16le' }));
+   * // 7
+   * console.log(buf.toBuffer());
+   * // <Buffer 05 00 48 65 6c 6c 6f>
+   * ```
+   *
+   * @param value The string to write.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @param options The type of the length prefix (`'u8'` by default, `'u16le'` or `'varint'`),
+   * and the character encoding.
+   * @returns `offset` plus the number of bytes written, including the prefix.
+   */
+  writePString(
+    value: string,
+    offset: number = 0,
+    options: DynamicBufferPStringOptions = {},
+  ): number {
+    checkRange('offset', offset, 0);
+
+    const { prefix = 'u8', encoding = this.encoding } = options;
+    if (!['u8', 'u16le', 'varint'].includes(prefix)) {
+      throw new Error('Invalid string prefix');
+    }
+
+    const data = Buffer.from(value, encoding);
+    const limit = FramePrefixLimits[prefix];
+    if (data.length > limit) {
+      throw new RangeError(`The string length ${data.length} exceeds the maximum length ${limit} of the '${prefix}' prefix`);
+    }
+
+    return this.writeBytes(Buffer.concat([encodeFramePrefix(prefix, data.length), data]), offset);
+  }
+
   /**
    * Writes a 8-bits unsigned integer to the buffer at the specified offset.
    *
@@ -2062,6 +4651,10 @@ export class DynamicBuffer {
   writeUInt8(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 1, 1) < 1) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 1 > this.size) {
       this.ensureSize(offset + 1);
     }
@@ -2084,6 +4677,10 @@ export class DynamicBuffer {
   writeUInt16BE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 2, 2) < 2) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 2 > this.size) {
       this.ensureSize(offset + 2);
     }
@@ -2106,6 +4703,10 @@ export class DynamicBuffer {
   writeUInt16LE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 2, 2) < 2) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 2 > this.size) {
       this.ensureSize(offset + 2);
     }
@@ -2128,6 +4729,10 @@ export class DynamicBuffer {
   writeUInt32BE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 4, 4) < 4) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 4 > this.size) {
       this.ensureSize(offset + 4);
     }
@@ -2150,6 +4755,10 @@ export class DynamicBuffer {
   writeUInt32LE(value: number, offset: number = 0): number {
     checkRange('offset', offset, 0);
 
+    if (this.fitLength(offset + 4, 4) < 4) {
+      return offset;
+    }
+
     if (!this.buffer || offset + 4 > this.size) {
       this.ensureSize(offset + 4);
     }
@@ -2174,6 +4783,10 @@ export class DynamicBuffer {
     checkRange('offset', offset, 0);
     checkRange('byteLength', byteLength, 1, 6);
 
+    if (this.fitLength(offset + byteLength, byteLength) < byteLength) {
+      return offset;
+    }
+
     if (!this.buffer || offset + byteLength > this.size) {
       this.ensureSize(offset + byteLength);
     }
@@ -2198,6 +4811,10 @@ export class DynamicBuffer {
     checkRange('offset', offset, 0);
     checkRange('byteLength', byteLength, 1, 6);
 
+    if (this.fitLength(offset + byteLength, byteLength) < byteLength) {
+      return offset;
+    }
+
     if (!this.buffer || offset + byteLength > this.size) {
       this.ensureSize(offset + byteLength);
     }
@@ -2209,6 +4826,148 @@ export class DynamicBuffer {
     return ret;
   }
 
+  /**
+   * Writes a signed safe integer to the buffer at the specified offset as zigzag encoded
+   * variable-length integer.
+   *
+   * ```js
+   * buf.writeVarInt(-2);
+   * console.log(buf.toBuffer());
+   * // <Buffer 03>
+   * ```
+   *
+   * @param value The number to be written to buffer.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @returns `offset` plus the number of bytes written.
+   */
+  writeVarInt(value: number, offset: number = 0): number {
+    checkRange('offset', offset, 0);
+    checkRange('value', value, Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER);
+
+    if (!Number.isInteger(value)) {
+      throw new RangeError(`The value of 'value' is not an integer. Received ${value}`);
+    }
+
+    return this.writeBytes(encodeULEB128(zigzagEncode(BigInt(value))), offset);
+  }
+
+  /**
+   * Writes an unsigned safe integer to the buffer at the specified offset as variable-length
+   * integer (unsigned LEB128).
+   *
+   * ```js
+   * buf.writeVarUInt(300);
+   * console.log(buf.toBuffer());
+   * // <Buffer ac 02>
+   * ```
+   *
+   * @param value The number to be written to buffer.
+   * @param offset The number of bytes to skip before starting to write, and it must greater than
+   * or equal to `0`. Default `0`.
+   * @returns `offset` plus the number of bytes written.
+   */
+  writeVarUInt(value: number, offset: number = 0): number {
+    checkRange('offset', offset, 0);
+    checkRange('value', value, 0, Number.MAX_SAFE_INTEGER);
+
+    if (!Number.isInteger(value)) {
+      throw new RangeError(`The value of 'value' is not an integer. Received ${value}`);
+    }
+
+    return this.writeBytes(encodeULEB128(BigInt(value)), offset);
+  }
+
+  /**
+   * Performs bitwise XOR between this buffer and the other buffer in place. This buffer will be
+   * extended with zero bytes if it's shorter than the other buffer.
+   *
+   * ```js
+   * const buf = new DynamicBuffer(Buffer.from([0xff, 0x0f]));
+   * buf.xor(Buffer.from([0x0f]));
+   * console.log(buf.toBuffer());
+   * // <Buffer f0 0f>
+   * ```
+   *
+   * @param other The other operand.
+   * @returns The reference to this buffer.
+   */
+  xor(other: DynamicBuffer | Buffer | Uint8Array): this {
+    return this.combineBits(other, 'xor');
+  }
+
+  /**
+   * The number of bytes that used in the buffer, and the watchers will be notified if it
+   * increased.
+   */
+  private get used(): number {
+    return this.usedBytes;
+  }
+
+  private set used(value: number) {
+    const isGrown = value > this.usedBytes;
+    if (value !== this.usedBytes) {
+      this.modCount += 1;
+    }
+    this.usedBytes = value;
+
+    if (isGrown && this.watchers) {
+      this.watchers.forEach((watcher) => watcher.onAppend());
+    }
+  }
+
+  /**
+   * Appends a numeric value to the end of the buffer by the write method.
+   *
+   * @param write The function to write the value at the offset, and it returns the offset plus
+   * the number of bytes written.
+   * @returns The length of this buffer after appending, or `0` if the value is discarded.
+   */
+  private appendValue(write: (offset: number) => number): number {
+    const start = this.used;
+    const end = write(start);
+
+    return end === start ? 0 : end;
+  }
+
+  /**
+   * Calculates the new size of the buffer by the growth strategy.
+   *
+   * @param expectSize The number of bytes that minimum size is expected.
+   * @returns The new size of the buffer.
+   */
+  private calculateGrowth(expectSize: number): number {
+    if (typeof this.growth === 'function') {
+      const newSize = this.growth(this.size, expectSize);
+      if (typeof newSize !== 'number' || Number.isNaN(newSize) || newSize < expectSize) {
+        throw new Error('Invalid size from growth strategy');
+      }
+
+      return Math.ceil(newSize);
+    }
+
+    switch (this.growth) {
+      case 'power-of-two': {
+        let newSize = 1;
+        while (newSize < expectSize) {
+          newSize *= 2;
+        }
+        return newSize;
+      }
+      case 'linear':
+        return this.size + Math.ceil((expectSize - this.size) / this.growthStep) * this.growthStep;
+      case 'page': {
+        const sizeWithFactor = Math.ceil(this.size * (1 + this.factor));
+        const newSize = expectSize > sizeWithFactor ? expectSize : sizeWithFactor;
+        return Math.ceil(newSize / this.PageSize) * this.PageSize;
+      }
+      default: {
+        const sizeWithFactor = Math.ceil(this.size * (1 + this.factor));
+        return expectSize > sizeWithFactor ? expectSize : sizeWithFactor;
+      }
+    }
+  }
+
   /**
    * Calculate start and end offsets by optional parameters.
    *
@@ -2242,6 +5001,27 @@ export class DynamicBuffer {
     };
   }
 
+  /**
+   * Combines the other buffer into this buffer with the bitwise operation in place.
+   *
+   * @param other The other operand.
+   * @param operation The bitwise operation.
+   * @returns The reference to this buffer.
+   */
+  private combineBits(
+    other: DynamicBuffer | Buffer | Uint8Array,
+    operation: BitwiseOperation,
+  ): this {
+    const source = other instanceof DynamicBuffer ? other.subarray(0, other.length) : other;
+    this.zeroExtend(source.length);
+
+    if (this.buffer && this.used > 0) {
+      applyBitwise(this.buffer.subarray(0, this.used), source, operation);
+    }
+
+    return this;
+  }
+
   /**
    * Ensures the buffer size is at least equal to the expect size.
    *
@@ -2252,20 +5032,64 @@ export class DynamicBuffer {
       return;
     }
 
-    if (expectSize > constants.MAX_LENGTH) {
-      throw new Error('Buffer size is overflow');
+    if (this.head > 0 && this.size + this.head >= expectSize) {
+      this.compact();
+      return;
+    }
+
+    if (expectSize > this.limit) {
+      throw new DynamicBufferOverflowError(expectSize, this.limit);
     }
 
-    const sizeWithFactor = Math.ceil(this.size * (1 + this.factor));
-    let newSize = expectSize > sizeWithFactor ? expectSize : sizeWithFactor;
+    let newSize = this.calculateGrowth(expectSize);
 
-    if (newSize > constants.MAX_LENGTH) {
-      newSize = constants.MAX_LENGTH;
+    if (newSize > this.limit) {
+      newSize = this.limit;
     }
 
     this.resize(newSize);
   }
 
+  /**
+   * Gets the number of bytes that can be written by the overflow mode of this buffer, if the
+   * expected size exceeds the maximum size of the buffer.
+   *
+   * @param expectSize The size of the buffer that is expected after writing.
+   * @param length The number of bytes to write.
+   * @returns The number of bytes that can be written.
+   */
+  private fitLength(expectSize: number, length: number): number {
+    if (expectSize <= this.limit) {
+      return length;
+    }
+
+    if (this.overflow === 'throw') {
+      throw new DynamicBufferOverflowError(expectSize, this.limit);
+    }
+    if (this.overflow === 'reject' || length <= expectSize - this.limit) {
+      return 0;
+    }
+
+    return length - (expectSize - this.limit);
+  }
+
+  /**
+   * Gets the settings of this buffer, except the initial size.
+   *
+   * @returns The settings of this buffer.
+   */
+  private getOptions(): DynamicBufferOptions {
+    return {
+      encoding: this.encoding,
+      factor: this.factor,
+      fill: this.fillVal,
+      growth: this.growth,
+      growthStep: this.growthStep,
+      maxSize: this.limit,
+      overflow: this.overflow,
+    };
+  }
+
   /**
    * Gets the first or last index at which the given value can be found in the buffer, or `-1`
    * if it is not present.
@@ -2308,13 +5132,115 @@ export class DynamicBuffer {
     return this.buffer.subarray(0, this.length).lastIndexOf(search, start, encoding);
   }
 
+  /**
+   * Prepends the encoded numeric value to the beginning of the buffer, and the value will be
+   * discarded if it can't be written completely because of the maximum size.
+   *
+   * @param data The encoded value.
+   * @returns The number of bytes written, or `0` if the value is discarded.
+   */
+  private prependValue(data: Buffer): number {
+    if (this.fitLength(this.used + data.length, data.length) < data.length) {
+      return 0;
+    }
+
+    return this.prepend(data);
+  }
+
+  /**
+   * Reads the payload length from the frame prefix at the start of the buffer.
+   *
+   * @param prefix The type of the frame prefix.
+   * @returns The payload length and the size of the prefix, or `undefined` if the prefix is not
+   * complete. It throws a `RangeError` if the varint prefix is longer than 8 bytes.
+   */
+  private readFrameLength(
+    prefix: DynamicBufferFramePrefix,
+  ): DynamicBufferReadResult<number> | undefined {
+    if (!this.buffer) {
+      return undefined;
+    }
+
+    if (prefix === 'varint') {
+      let i = 0;
+      while (i < this.length && this.buffer[i] >= 0x80) {
+        i += 1;
+        if (i >= MaxVarUIntBytes) {
+          throw new RangeError(`The variable-length integer is longer than ${MaxVarUIntBytes} bytes`);
+        }
+      }
+
+      return i < this.length ? this.readVarUInt(0) : undefined;
+    }
+
+    const size = FramePrefixSizes[prefix];
+    if (this.length < size) {
+      return undefined;
+    }
+
+    let value: number;
+    switch (prefix) {
+      case 'u16be':
+        value = this.readUInt16BE(0);
+        break;
+      case 'u16le':
+        value = this.readUInt16LE(0);
+        break;
+      case 'u32be':
+        value = this.readUInt32BE(0);
+        break;
+      case 'u32le':
+        value = this.readUInt32LE(0);
+        break;
+      default:
+        value = this.readUInt8(0);
+    }
+
+    return { value, bytesRead: size };
+  }
+
+  /**
+   * Reads an LEB128 encoded value from the buffer as unsigned BigInt, and rejects the overlong
+   * encodings.
+   *
+   * @param offset Number of bytes to skip before starting to read.
+   * @param maxBytes The maximum number of bytes of the encoded value, no limit if it's not set.
+   * @param signed Whether the value is encoded as signed LEB128 or not, default `false`.
+   * @returns The decoded value, and the number of bytes read.
+   */
+  private readLEB128(
+    offset: number,
+    maxBytes?: number,
+    signed: boolean = false,
+  ): DynamicBufferReadResult<bigint> {
+    if (!this.buffer || this.length < 1) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+
+    checkRange('offset', offset, 0, this.length - 1);
+
+    const result = decodeULEB128(this.buffer, offset, this.length, maxBytes);
+    checkOverlongLEB128(this.buffer, offset, result.bytesRead, signed);
+
+    return result;
+  }
+
   /**
    * Allocates a new buffer with the new size, and copies data from the old buffer to the new
-   * buffer if the old buffer is not empty.
+   * buffer if the old buffer is not empty. The buffer will be released if the new size is `0`.
    *
    * @param newSize The size of new buffer.
    */
   private resize(newSize: number): void {
+    this.modCount += 1;
+
+    if (newSize === 0) {
+      this.buffer = undefined;
+      this.size = 0;
+      this.head = 0;
+      return;
+    }
+
     const newBuffer = Buffer.alloc(newSize, this.fillVal, this.encoding);
 
     if (this.buffer && this.used > 0) {
@@ -2323,6 +5249,52 @@ export class DynamicBuffer {
 
     this.buffer = newBuffer;
     this.size = newSize;
+    this.head = 0;
+  }
+
+  /**
+   * Replaces the bytes between start and end offsets with the specified data, and moves the data
+   * after the end offset to follow the new data.
+   *
+   * @param start The start offset of the bytes to replace.
+   * @param end The end offset (not inclusive) of the bytes to replace.
+   * @param data The data to place at the start offset.
+   */
+  private spliceData(start: number, end: number, data?: Buffer): void {
+    const dataLength = data ? data.length : 0;
+    const newUsed = this.used - (end - start) + dataLength;
+
+    this.ensureSize(newUsed);
+
+    if (!this.buffer) {
+      return;
+    }
+
+    if (end - start !== dataLength) {
+      this.buffer.copy(this.buffer, start + dataLength, end, this.used);
+    }
+    if (data) {
+      data.copy(this.buffer, start);
+    }
+
+    this.used = newUsed;
+  }
+
+  /**
+   * Registers the watcher to be notified when the data of this buffer changed.
+   *
+   * @param watcher The watcher to register.
+   * @returns The function to remove the watcher.
+   */
+  private watch(watcher: DynamicBufferWatcher): () => void {
+    if (!this.watchers) {
+      this.watchers = new Set();
+    }
+    this.watchers.add(watcher);
+
+    return () => {
+      this.watchers?.delete(watcher);
+    };
   }
 
   /**
@@ -2332,6 +5304,10 @@ export class DynamicBuffer {
    * @param offset The position to write data.
    */
   private writeByte(data: any, offset: number): void {
+    if (this.fitLength(offset + 1, 1) === 0) {
+      return;
+    }
+
     this.ensureSize(offset + 1);
 
     // @ts-ignore
@@ -2342,16 +5318,39 @@ export class DynamicBuffer {
     }
   }
 
+  /**
+   * Writes bytes to the buffer at the specified offset, and the bytes will be discarded if they
+   * can't be written completely because of the maximum size.
+   *
+   * @param bytes The bytes to write.
+   * @param offset Number of bytes to skip before starting to write data.
+   * @returns `offset` plus the number of bytes written.
+   */
+  private writeBytes(bytes: number[] | Uint8Array, offset: number): number {
+    if (this.fitLength(offset + bytes.length, bytes.length) < bytes.length) {
+      return offset;
+    }
+
+    this.ensureSize(offset + bytes.length);
+    this.buffer?.set(bytes, offset);
+
+    const ret = offset + bytes.length;
+    this.used = ret > this.used ? ret : this.used;
+
+    return ret;
+  }
+
   /**
    * Write data into internal buffer with the specified offset, and the type of data should be one
    * of string or Buffer.
    *
    * @param data Data to write to buffer.
    * @param offset Number of bytes to skip before starting to write data.
-   * @param length Maximum number of bytes to write, default the length of the data.
+   * @param length Maximum number of bytes to write, default the byte length of the data.
    * @param encoding The character encoding to use if the data is a string, default from buffer
    * encoding.
-   * @returns Number of bytes written.
+   * @returns Number of bytes written, or `-1` if the data is rejected because it exceeds the
+   * maximum size of the buffer.
    */
   private writeData(
     data: string | Buffer,
@@ -2363,8 +5362,10 @@ export class DynamicBuffer {
       throw new TypeError('argument must be a string, or a Buffer');
     }
 
-    let lengthToWrite = data.length || 0;
-    if (length !== undefined && length >= 0 && length <= data.length) {
+    const bytes = typeof data === 'string' ? Buffer.from(data, encoding || this.encoding) : data;
+
+    let lengthToWrite = bytes.length;
+    if (length !== undefined && length >= 0 && length <= bytes.length) {
       lengthToWrite = length;
     }
 
@@ -2372,16 +5373,34 @@ export class DynamicBuffer {
       return 0;
     }
 
+    lengthToWrite = this.fitLength(lengthToWrite + offset, lengthToWrite);
+    if (lengthToWrite === 0) {
+      return -1;
+    }
+
     this.ensureSize(lengthToWrite + offset);
 
-    let count: number | undefined = 0;
-    if (typeof data === 'string') {
-      count = this.buffer?.write(data, offset, lengthToWrite, encoding || this.encoding);
-    } else if (this.buffer) {
-      data.copy(this.buffer, offset, 0, lengthToWrite);
-      count = lengthToWrite;
+    if (!this.buffer) {
+      return 0;
+    }
+    bytes.copy(this.buffer, offset, 0, lengthToWrite);
+
+    return lengthToWrite;
+  }
+
+  /**
+   * Extends this buffer to the specified length with zero bytes, and it does nothing if the
+   * length is less than or equal to the current length.
+   *
+   * @param length The new length of this buffer.
+   */
+  private zeroExtend(length: number): void {
+    const start = this.used;
+    if (length <= start) {
+      return;
     }
 
-    return count || 0;
+    this.setLength(length);
+    this.buffer?.fill(0, start, length);
   }
 }
@@ -0,0 +1,93 @@
+/**
+ * The error that will be thrown if the buffer size exceeds the maximum size of the buffer.
+ *
+ * ```js
+ * const buf = new DynamicBuffer({ maxSize: 4 });
+ *
+ * try {
+ *   buf.append('Hello');
+ * } catch (err) {
+ *   console.log(err instanceof DynamicBufferOverflowError, err.requestedSize, err.maxSize);
+ *   // true 5 4
+ * }
+ * ```
+ */
+export class DynamicBufferOverflowError extends RangeError {
+  /**
+   * The number of bytes that the buffer requested.
+   */
+  readonly requestedSize: number;
+
+  /**
+   * The maximum number of bytes that the buffer allowed.
+   */
+  readonly maxSize: number;
+
+  constructor(requestedSize: number, maxSize: number) {
+    super(`Buffer size is overflow, requested ${requestedSize} bytes but the maximum size is ${maxSize} bytes`);
+
+    this.name = 'DynamicBufferOverflowError';
+    this.requestedSize = requestedSize;
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * The error that will be thrown by the iterators if the buffer has been modified (resized,
+ * truncated, or shifted) during iteration.
+ *
+ * ```js
+ * const buf = new DynamicBuffer('Hello');
+ *
+ * try {
+ *   for (const byte of buf) {
+ *     buf.prepend('!');
+ *   }
+ * } catch (err) {
+ *   console.log(err instanceof DynamicBufferConcurrentModificationError);
+ *   // true
+ * }
+ * ```
+ */
+export class DynamicBufferConcurrentModificationError extends Error {
+  constructor() {
+    super('Buffer has been modified during iteration, use the snapshot option to iterate over a copy of the buffer');
+
+    this.name = 'DynamicBufferConcurrentModificationError';
+  }
+}
+
+/**
+ * The error that will be thrown if the size of a frame exceeds the maximum frame size.
+ *
+ * ```js
+ * const buf = new DynamicBuffer();
+ * buf.writeUInt32BE(1024 * 1024);
+ *
+ * try {
+ *   buf.tryReadFrame({ prefix: 'u32be', maxFrameSize: 1024 });
+ * } catch (err) {
+ *   console.log(err instanceof DynamicBufferFrameSizeError, err.frameSize, err.maxFrameSize);
+ *   // true 1048576 1024
+ * }
+ * ```
+ */
+export class DynamicBufferFrameSizeError extends RangeError {
+  /**
+   * The payload size of the frame.
+   */
+  readonly frameSize: number;
+
+  /**
+   * The maximum payload size of a frame.
+   */
+  readonly maxFrameSize: number;
+
+  constructor(frameSize: number, maxFrameSize: number) {
+    super(`Frame size is too large, the frame has ${frameSize} bytes but the maximum frame size is ${maxFrameSize} bytes`);
+
+    this.name = 'DynamicBufferFrameSizeError';
+    this.frameSize = frameSize;
+    this.maxFrameSize = maxFrameSize;
+  }
+}
@@ -0,0 +1,88 @@
+import type { DynamicBufferFrameOptions, DynamicBufferFramePrefix } from './dynamicBuffer';
+import { checkRange } from './utils';
+import { encodeULEB128 } from './varint';
+
+/**
+ * The maximum payload length that can be represented by each frame prefix.
+ */
+export const FramePrefixLimits: Readonly<Record<DynamicBufferFramePrefix, number>> = {
+  u8: 0xff,
+  u16be: 0xffff,
+  u16le: 0xffff,
+  u32be: 0xffffffff,
+  u32le: 0xffffffff,
+  varint: Number.MAX_SAFE_INTEGER,
+};
+
+/**
+ * The number of bytes of each fixed-size frame prefix.
+ */
+export const FramePrefixSizes: Readonly<
+  Record<Exclude<DynamicBufferFramePrefix, 'varint'>, number>
+> = {
+  u8: 1,
+  u16be: 2,
+  u16le: 2,
+  u32be: 4,
+  u32le: 4,
+};
+
+/**
+ * Encodes the payload length as the frame prefix.
+ *
+ * @param prefix The type of the frame prefix.
+ * @param length The payload length.
+ * @returns The encoded prefix.
+ */
+export const encodeFramePrefix = (prefix: DynamicBufferFramePrefix, length: number): Buffer => {
+  let data: Buffer;
+
+  switch (prefix) {
+    case 'u8':
+      data = Buffer.alloc(1);
+      data.writeUInt8(length);
+      break;
+    case 'u16be':
+      data = Buffer.alloc(2);
+      data.writeUInt16BE(length);
+      break;
+    case 'u16le':
+      data = Buffer.alloc(2);
+      data.writeUInt16LE(length);
+      break;
+    case 'u32be':
+      data = Buffer.alloc(4);
+      data.writeUInt32BE(length);
+      break;
+    case 'u32le':
+      data = Buffer.alloc(4);
+      data.writeUInt32LE(length);
+      break;
+    default:
+      data = Buffer.from(encodeULEB128(BigInt(length)));
+  }
+
+  return data;
+};
+
+/**
+ * Validates the frame options, and fills the default values.
+ *
+ * @param options The frame options.
+ * @returns The prefix type and the maximum frame size.
+ */
+export const resolveFrameOptions = (options: DynamicBufferFrameOptions) => {
+  const prefix = options.prefix ?? 'u32be';
+  if (!Object.prototype.hasOwnProperty.call(FramePrefixLimits, prefix)) {
+    throw new Error('Invalid frame prefix');
+  }
+
+  const limit = FramePrefixLimits[prefix];
+  const maxFrameSize = options.maxFrameSize ?? limit;
+  checkRange('maxFrameSize', maxFrameSize, 0);
+
+  return {
+    prefix,
+    maxFrameSize: maxFrameSize < limit ? maxFrameSize : limit,
+  };
+};
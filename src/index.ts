@@ -1,2 +1,11 @@
+export * from './bitReader';
+export * from './bitWriter';
 export * from './dynamicBuffer';
+export * from './errors';
+export * from './readable';
+export * from './reader';
+export * from './ringBuffer';
+export * from './struct';
+export * from './writable';
+export * from './writer';
 export { isDynamicBuffer } from './utils';
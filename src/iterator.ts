@@ -1,11 +1,14 @@
-import { DynamicBuffer } from '.';
+import { DynamicBuffer, DynamicBufferConcurrentModificationError } from '.';
 
 /**
- * Abstract iterator class for DynamicBuffer.
+ * Abstract iterator class for DynamicBuffer. The iterator is fail-fast, `checkModification`
+ * throws a `DynamicBufferConcurrentModificationError` if the buffer has been modified after the
+ * iterator was created.
  *
  * ```js
  * class ValueIterator extends DynamicBufferIterator<number> {
  *   next() {
+ *     this.checkModification();
  *     // ...
  *   }
  * }
@@ -16,9 +19,21 @@ export abstract class DynamicBufferIterator<T> implements IterableIterator<T> {
 
   protected index: number;
 
-  constructor(buf: DynamicBuffer) {
+  /**
+   * The function to get the current modification count of the buffer.
+   */
+  private getModCount?: () => number;
+
+  /**
+   * The modification count of the buffer when the iterator was created.
+   */
+  private expectedModCount?: number;
+
+  constructor(buf: DynamicBuffer, getModCount?: () => number) {
     this.buf = buf;
     this.index = 0;
+    this.getModCount = getModCount;
+    this.expectedModCount = getModCount?.();
   }
 
   [Symbol.iterator](): IterableIterator<T> {
@@ -26,4 +41,13 @@ export abstract class DynamicBufferIterator<T> implements IterableIterator<T> {
   }
 
   abstract next(): IteratorResult<T, any>;
+
+  /**
+   * Throws an error if the buffer has been modified after the iterator was created.
+   */
+  protected checkModification() {
+    if (this.getModCount && this.getModCount() !== this.expectedModCount) {
+      throw new DynamicBufferConcurrentModificationError();
+    }
+  }
 }
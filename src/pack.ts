@@ -0,0 +1,313 @@
+import { endianness } from 'os';
+
+import type { BufferEncoding, DynamicBufferPackValue } from './dynamicBuffer';
+
+interface FormatCodec {
+  size: number;
+  read: (data: Buffer, offset: number, littleEndian: boolean) => DynamicBufferPackValue;
+  write: (data: Buffer, value: any, offset: number, littleEndian: boolean) => void;
+}
+
+interface FormatItem {
+  code: string;
+  count: number;
+  offset: number;
+}
+
+/**
+ * The codecs of the format characters except `x`, `s` and `p`, and the sizes are the standard
+ * sizes of Python's struct module.
+ */
+const FormatCodecs: Readonly<Record<string, FormatCodec>> = {
+  c: {
+    size: 1,
+    read: (data, offset) => Buffer.from(data.subarray(offset, offset + 1)),
+    write: (data, value, offset) => {
+      const bytes = typeof value === 'string' ? Buffer.from(value, 'latin1') : value;
+      if (bytes?.length !== 1) {
+        throw new TypeError('The value of format \'c\' must be a string or buffer of length 1');
+      }
+      data.set(bytes, offset);
+    },
+  },
+  b: {
+    size: 1,
+    read: (data, offset) => data.readInt8(offset),
+    write: (data, value, offset) => { data.writeInt8(value, offset); },
+  },
+  B: {
+    size: 1,
+    read: (data, offset) => data.readUInt8(offset),
+    write: (data, value, offset) => { data.writeUInt8(value, offset); },
+  },
+  '?': {
+    size: 1,
+    read: (data, offset) => data.readUInt8(offset) !== 0,
+    write: (data, value, offset) => { data.writeUInt8(value ? 1 : 0, offset); },
+  },
+  h: {
+    size: 2,
+    read: (data, offset, le) => (le ? data.readInt16LE(offset) : data.readInt16BE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeInt16LE(value, offset);
+      } else {
+        data.writeInt16BE(value, offset);
+      }
+    },
+  },
+  H: {
+    size: 2,
+    read: (data, offset, le) => (le ? data.readUInt16LE(offset) : data.readUInt16BE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeUInt16LE(value, offset);
+      } else {
+        data.writeUInt16BE(value, offset);
+      }
+    },
+  },
+  i: {
+    size: 4,
+    read: (data, offset, le) => (le ? data.readInt32LE(offset) : data.readInt32BE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeInt32LE(value, offset);
+      } else {
+        data.writeInt32BE(value, offset);
+      }
+    },
+  },
+  I: {
+    size: 4,
+    read: (data, offset, le) => (le ? data.readUInt32LE(offset) : data.readUInt32BE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeUInt32LE(value, offset);
+      } else {
+        data.writeUInt32BE(value, offset);
+      }
+    },
+  },
+  q: {
+    size: 8,
+    read: (data, offset, le) => (le ? data.readBigInt64LE(offset) : data.readBigInt64BE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeBigInt64LE(BigInt(value), offset);
+      } else {
+        data.writeBigInt64BE(BigInt(value), offset);
+      }
+    },
+  },
+  Q: {
+    size: 8,
+    read: (data, offset, le) => (le ? data.readBigUInt64LE(offset) : data.readBigUInt64BE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeBigUInt64LE(BigInt(value), offset);
+      } else {
+        data.writeBigUInt64BE(BigInt(value), offset);
+      }
+    },
+  },
+  f: {
+    size: 4,
+    read: (data, offset, le) => (le ? data.readFloatLE(offset) : data.readFloatBE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeFloatLE(value, offset);
+      } else {
+        data.writeFloatBE(value, offset);
+      }
+    },
+  },
+  d: {
+    size: 8,
+    read: (data, offset, le) => (le ? data.readDoubleLE(offset) : data.readDoubleBE(offset)),
+    write: (data, value, offset, le) => {
+      if (le) {
+        data.writeDoubleLE(value, offset);
+      } else {
+        data.writeDoubleBE(value, offset);
+      }
+    },
+  },
+};
+
+// The `l` and `L` formats are 4 bytes in the standard sizes like `i` and `I`.
+const FormatAliases: Readonly<Record<string, string>> = {
+  l: 'i',
+  L: 'I',
+};
+
+/**
+ * Parses the format string into the byte order, the items with offsets and the total size.
+ *
+ * @param format The format string.
+ * @returns The parsed format.
+ */
+const parseFormat = (format: string) => {
+  if (typeof format !== 'string') {
+    throw new TypeError('format must be a string');
+  }
+
+  let index = 0;
+  let littleEndian = endianness() === 'LE';
+  let align = true;
+
+  if ('@=<>!'.includes(format[0])) {
+    align = format[0] === '@';
+    if (format[0] === '<') {
+      littleEndian = true;
+    } else if (format[0] === '>' || format[0] === '!') {
+      littleEndian = false;
+    }
+    index = 1;
+  }
+
+  const items: FormatItem[] = [];
+  let size = 0;
+
+  while (index < format.length) {
+    const match = /^\s*(\d*)(\S)/.exec(format.slice(index));
+    if (!match) {
+      break;
+    }
+    index += match[0].length;
+
+    const [, digits, char] = match;
+    const count = digits ? Number(digits) : 1;
+    const code = FormatAliases[char] ?? char;
+
+    if (code === 'x' || code === 's' || code === 'p') {
+      items.push({ code, count, offset: size });
+      size += count;
+    } else if (Object.prototype.hasOwnProperty.call(FormatCodecs, code)) {
+      const codec = FormatCodecs[code];
+      if (align && size % codec.size !== 0) {
+        size += codec.size - (size % codec.size);
+      }
+      items.push({ code, count, offset: size });
+      size += codec.size * count;
+    } else {
+      throw new Error(`Invalid format character '${char}'`);
+    }
+  }
+
+  return { littleEndian, items, size };
+};
+
+/**
+ * Returns the number of values that the parsed items requires.
+ *
+ * @param items The parsed format items.
+ * @returns The number of values.
+ */
+const countValues = (items: FormatItem[]) => items.reduce((count, item) => {
+  if (item.code === 'x') {
+    return count;
+  }
+  return count + (item.code === 's' || item.code === 'p' ? 1 : item.count);
+}, 0);
+
+/**
+ * Returns the number of bytes of the packed data with the format.
+ *
+ * @param format The format string.
+ * @returns The number of bytes.
+ */
+export const calcFormatSize = (format: string): number => parseFormat(format).size;
+
+/**
+ * Packs the values into a new buffer with the format.
+ *
+ * @param format The format string.
+ * @param values The values to pack.
+ * @param encoding The character encoding of the string values of `s` and `p`, default 'utf8'.
+ * @returns The packed data.
+ */
+export const packFormat = (
+  format: string,
+  values: DynamicBufferPackValue[],
+  encoding: BufferEncoding = 'utf8',
+): Buffer => {
+  const { littleEndian, items, size } = parseFormat(format);
+
+  const expected = countValues(items);
+  if (values.length !== expected) {
+    throw new Error(`The format '${format}' requires ${expected} values, but received ${values.length}`);
+  }
+
+  const data = Buffer.alloc(size);
+  let valueIndex = 0;
+
+  items.forEach(({ code, count, offset }) => {
+    if (code === 'x') {
+      return;
+    }
+
+    if (code === 's' || code === 'p') {
+      const value = values[valueIndex];
+      valueIndex += 1;
+
+      const bytes = typeof value === 'string' ? Buffer.from(value, encoding) : value;
+      if (!(bytes instanceof Uint8Array)) {
+        throw new TypeError(`The value of format '${code}' must be a string or buffer`);
+      }
+
+      if (code === 's') {
+        data.set(bytes.subarray(0, count), offset);
+      } else if (count > 0) {
+        const length = Math.min(bytes.length, count - 1, 255);
+        data.writeUInt8(length, offset);
+        data.set(bytes.subarray(0, length), offset + 1);
+      }
+      return;
+    }
+
+    const codec = FormatCodecs[code];
+    for (let i = 0; i < count; i += 1) {
+      codec.write(data, values[valueIndex], offset + codec.size * i, littleEndian);
+      valueIndex += 1;
+    }
+  });
+
+  return data;
+};
+
+/**
+ * Unpacks the values from the data with the format.
+ *
+ * @param format The format string.
+ * @param data The data to unpack, and its length must be greater than or equal to the size of
+ * the format.
+ * @returns The unpacked values.
+ */
+export const unpackFormat = (format: string, data: Buffer): DynamicBufferPackValue[] => {
+  const { littleEndian, items } = parseFormat(format);
+  const values: DynamicBufferPackValue[] = [];
+
+  items.forEach(({ code, count, offset }) => {
+    if (code === 'x') {
+      return;
+    }
+
+    if (code === 's') {
+      values.push(Buffer.from(data.subarray(offset, offset + count)));
+      return;
+    }
+    if (code === 'p') {
+      const length = count > 0 ? Math.min(data.readUInt8(offset), count - 1) : 0;
+      values.push(Buffer.from(data.subarray(offset + 1, offset + 1 + length)));
+      return;
+    }
+
+    const codec = FormatCodecs[code];
+    for (let i = 0; i < count; i += 1) {
+      values.push(codec.read(data, offset + codec.size * i, littleEndian));
+    }
+  });
+
+  return values;
+};
@@ -0,0 +1,243 @@
+import { Readable, ReadableOptions } from 'stream';
+
+import type { DynamicBuffer } from './dynamicBuffer';
+import { checkRange } from './utils';
+
+export interface DynamicBufferReadStreamOptions extends ReadableOptions {
+  /**
+   * The offset to start reading, default `0`.
+   */
+  start?: number;
+
+  /**
+   * The offset to stop reading (not included), default the end of the buffer.
+   */
+  end?: number;
+
+  /**
+   * Keeps the stream open and emits the data that appended to the buffer later until `end()` is
+   * called, default `false`.
+   */
+  live?: boolean;
+}
+
+/**
+ * The listener to be notified when the data of the buffer changed, it's registered by the buffer
+ * that creates the stream.
+ */
+export interface DynamicBufferWatcher {
+  /**
+   * Called after new data appended to the buffer.
+   */
+  onAppend(): void;
+
+  /**
+   * Called after bytes removed from the start of the buffer by `consume`, `shift`, or `remove`.
+   *
+   * @param length The number of bytes removed.
+   */
+  onConsume(length: number): void;
+}
+
+/**
+ * Registers the watcher to the buffer, and returns a function to remove it.
+ */
+export type DynamicBufferWatchFunction = (watcher: DynamicBufferWatcher) => () => void;
+
+/**
+ * Readable stream class for DynamicBuffer, use `buf.createReadStream()` to create a readable
+ * stream of the buffer.
+ *
+ * The chunks emitted by the stream are views (`subarray`) of the buffer instead of copies, so
+ * modifying the buffer in place will also change the chunks that have not been consumed. The
+ * position of the stream moves backward when bytes are consumed from the start of the buffer, and
+ * the consumed data that has not been emitted will be skipped.
+ */
+export class DynamicBufferReadable extends Readable {
+  protected buf: DynamicBuffer;
+
+  /**
+   * The offset of the next chunk.
+   */
+  protected position: number;
+
+  /**
+   * The offset to stop reading.
+   */
+  protected endOffset?: number;
+
+  /**
+   * Whether the stream is in live mode or not.
+   */
+  protected live: boolean;
+
+  /**
+   * Whether `end()` has been called or not.
+   */
+  private isEnded: boolean;
+
+  /**
+   * Whether the stream is waiting for new data or not.
+   */
+  private isWaiting: boolean;
+
+  /**
+   * The function to register the watcher, it's cleared after the watcher registered or the stream
+   * stopped.
+   */
+  private watch?: DynamicBufferWatchFunction;
+
+  /**
+   * The function to remove the watcher from the buffer.
+   */
+  private unwatch?: () => void;
+
+  /**
+   * Create a readable stream of the buffer.
+   *
+   * @param buf The buffer to read from.
+   * @param options The options of the readable stream.
+   * @param watch The function to watch the changes of the buffer, it's provided by
+   * `buf.createReadStream()`. The live mode and the position adjustment after consuming are not
+   * available without it. The watcher is registered when the stream starts reading, so the bytes
+   * consumed before that are not adjusted.
+   */
+  constructor(
+    buf: DynamicBuffer,
+    options: DynamicBufferReadStreamOptions = {},
+    watch: DynamicBufferWatchFunction | undefined = undefined,
+  ) {
+    const {
+      start = 0,
+      end,
+      live = false,
+      ...streamOptions
+    } = options;
+
+    checkRange('start', start, 0);
+    if (end !== undefined) {
+      checkRange('end', end, start);
+    }
+
+    super(streamOptions);
+
+    this.buf = buf;
+    this.position = start;
+    this.endOffset = end;
+    this.live = live;
+    this.isEnded = false;
+    this.isWaiting = false;
+    this.watch = watch;
+  }
+
+  /**
+   * Stops waiting for new data in live mode, and the stream will end after all available data
+   * has been emitted.
+   *
+   * @returns The reference to this stream.
+   */
+  end(): this {
+    this.isEnded = true;
+
+    if (this.isWaiting) {
+      this.isWaiting = false;
+      process.nextTick(() => this.readChunk(this.readableHighWaterMark));
+    }
+
+    return this;
+  }
+
+  // eslint-disable-next-line no-underscore-dangle
+  _read(size: number): void {
+    this.startWatching();
+    this.readChunk(size);
+  }
+
+  // eslint-disable-next-line no-underscore-dangle
+  _destroy(error: Error | null, callback: (err?: Error | null) => void): void {
+    this.stopWatching();
+    callback(error);
+  }
+
+  /**
+   * Continues reading if the stream is waiting for new data.
+   */
+  private onAppend() {
+    if (!this.isWaiting) {
+      return;
+    }
+
+    this.isWaiting = false;
+    process.nextTick(() => this.readChunk(this.readableHighWaterMark));
+  }
+
+  /**
+   * Moves the position and the end offset backward after bytes removed from the start of the
+   * buffer.
+   *
+   * @param length The number of bytes removed.
+   */
+  private onConsume(length: number) {
+    this.position = this.position > length ? this.position - length : 0;
+
+    if (this.endOffset !== undefined) {
+      this.endOffset = this.endOffset > length ? this.endOffset - length : 0;
+    }
+  }
+
+  /**
+   * Pushes the next chunk to the stream, or waits for new data in live mode.
+   *
+   * @param size The maximum number of bytes of the chunk.
+   */
+  private readChunk(size: number) {
+    if (this.destroyed) {
+      return;
+    }
+
+    let limit = this.buf.length;
+    if (this.endOffset !== undefined && this.endOffset < limit) {
+      limit = this.endOffset;
+    }
+
+    if (this.position < limit) {
+      const end = this.position + size < limit ? this.position + size : limit;
+      const chunk = this.buf.subarray(this.position, end);
+      this.position = end;
+      this.push(chunk);
+      return;
+    }
+
+    if (this.live && !this.isEnded && this.position !== this.endOffset) {
+      this.isWaiting = true;
+      return;
+    }
+
+    this.stopWatching();
+    this.push(null);
+  }
+
+  /**
+   * Registers the watcher to the buffer if it has not been registered.
+   */
+  private startWatching() {
+    if (!this.watch) {
+      return;
+    }
+
+    this.unwatch = this.watch({
+      onAppend: () => this.onAppend(),
+      onConsume: (length) => this.onConsume(length),
+    });
+    this.watch = undefined;
+  }
+
+  /**
+   * Removes the watcher from the buffer.
+   */
+  private stopWatching() {
+    this.unwatch?.();
+    this.unwatch = undefined;
+    this.watch = undefined;
+  }
+}
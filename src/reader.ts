@@ -0,0 +1,437 @@
+import { BufferEncoding, DynamicBuffer } from './dynamicBuffer';
+import { checkRange } from './utils';
+
+/**
+ * The `DynamicBufferReader` class wraps a `DynamicBuffer` with an internal read position, and
+ * every read method advances the position by the number of bytes read.
+ *
+ * The position is an absolute offset of the buffer, and it's not adjusted after bytes removed
+ * from the start of the buffer by `consume`, `shift`, or `remove`. Use `seek` to move the
+ * position after that, or the reader will read the wrong bytes.
+ *
+ * ```js
+ * const buf = new DynamicBuffer();
+ * buf.writeUInt16BE(5);
+ * buf.append('Hello');
+ *
+ * const reader = new DynamicBufferReader(buf);
+ * const len = reader.readUInt16BE();
+ * console.log(reader.readString(len));
+ * // Hello
+ * ```
+ */
+export class DynamicBufferReader {
+  /**
+   * The buffer to read from.
+   */
+  private buf: DynamicBuffer;
+
+  /**
+   * The current read position in the buffer.
+   */
+  private offset: number;
+
+  /**
+   * Create a reader to read data from the buffer.
+   *
+   * @param buf The buffer to read from.
+   * @param offset The initial read position, default `0`.
+   */
+  constructor(buf: DynamicBuffer, offset: number = 0) {
+    checkRange('offset', offset, 0, buf.length);
+
+    this.buf = buf;
+    this.offset = offset;
+  }
+
+  /**
+   * Returns the number of bytes between the current position and the end of the buffer.
+   *
+   * ```js
+   * const reader = new DynamicBufferReader(new DynamicBuffer('Hello'));
+   * reader.skip(2);
+   * console.log(reader.remaining);
+   * // 3
+   * ```
+   */
+  get remaining() {
+    return this.buf.length > this.offset ? this.buf.length - this.offset : 0;
+  }
+
+  /**
+   * Reads a signed, big-endian 64-bit integer at the current position, and advances the
+   * position by 8.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readBigInt64BE(): bigint {
+    const value = this.buf.readBigInt64BE(this.offset);
+    this.offset += 8;
+
+    return value;
+  }
+
+  /**
+   * Reads a signed, little-endian 64-bit integer at the current position, and advances the
+   * position by 8.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readBigInt64LE(): bigint {
+    const value = this.buf.readBigInt64LE(this.offset);
+    this.offset += 8;
+
+    return value;
+  }
+
+  /**
+   * Reads an unsigned, big-endian 64-bit integer at the current position, and advances the
+   * position by 8.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readBigUInt64BE(): bigint {
+    const value = this.buf.readBigUInt64BE(this.offset);
+    this.offset += 8;
+
+    return value;
+  }
+
+  /**
+   * Reads an unsigned, little-endian 64-bit integer at the current position, and advances the
+   * position by 8.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readBigUInt64LE(): bigint {
+    const value = this.buf.readBigUInt64LE(this.offset);
+    this.offset += 8;
+
+    return value;
+  }
+
+  /**
+   * Reads `length` bytes at the current position and returns them as a `Buffer` that references
+   * the same memory as the buffer, then advances the position by `length`.
+   *
+   * @param length Number of bytes to read, and it must between `0` and `reader.remaining`,
+   * default `reader.remaining`.
+   * @returns The bytes read from the buffer.
+   */
+  readBytes(length: number = this.remaining): Buffer {
+    checkRange('length', length, 0, this.remaining);
+
+    const value = this.buf.subarray(this.offset, this.offset + length);
+    this.offset += length;
+
+    return value;
+  }
+
+  /**
+   * Reads a 64-bit, big-endian double at the current position, and advances the position by 8.
+   *
+   * @returns Double-precision floating-point number read from the buffer.
+   */
+  readDoubleBE(): number {
+    const value = this.buf.readDoubleBE(this.offset);
+    this.offset += 8;
+
+    return value;
+  }
+
+  /**
+   * Reads a 64-bit, little-endian double at the current position, and advances the position by 8.
+   *
+   * @returns Double-precision floating-point number read from the buffer.
+   */
+  readDoubleLE(): number {
+    const value = this.buf.readDoubleLE(this.offset);
+    this.offset += 8;
+
+    return value;
+  }
+
+  /**
+   * Reads a 32-bit, big-endian float at the current position, and advances the position by 4.
+   *
+   * @returns Single-precision floating-point number read from the buffer.
+   */
+  readFloatBE(): number {
+    const value = this.buf.readFloatBE(this.offset);
+    this.offset += 4;
+
+    return value;
+  }
+
+  /**
+   * Reads a 32-bit, little-endian float at the current position, and advances the position by 4.
+   *
+   * @returns Single-precision floating-point number read from the buffer.
+   */
+  readFloatLE(): number {
+    const value = this.buf.readFloatLE(this.offset);
+    this.offset += 4;
+
+    return value;
+  }
+
+  /**
+   * Reads a signed 8-bit integer at the current position, and advances the position by 1.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readInt8(): number {
+    const value = this.buf.readInt8(this.offset);
+    this.offset += 1;
+
+    return value;
+  }
+
+  /**
+   * Reads a signed, big-endian 16-bit integer at the current position, and advances the
+   * position by 2.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readInt16BE(): number {
+    const value = this.buf.readInt16BE(this.offset);
+    this.offset += 2;
+
+    return value;
+  }
+
+  /**
+   * Reads a signed, little-endian 16-bit integer at the current position, and advances the
+   * position by 2.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readInt16LE(): number {
+    const value = this.buf.readInt16LE(this.offset);
+    this.offset += 2;
+
+    return value;
+  }
+
+  /**
+   * Reads a signed, big-endian 32-bit integer at the current position, and advances the
+   * position by 4.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readInt32BE(): number {
+    const value = this.buf.readInt32BE(this.offset);
+    this.offset += 4;
+
+    return value;
+  }
+
+  /**
+   * Reads a signed, little-endian 32-bit integer at the current position, and advances the
+   * position by 4.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readInt32LE(): number {
+    const value = this.buf.readInt32LE(this.offset);
+    this.offset += 4;
+
+    return value;
+  }
+
+  /**
+   * Reads `byteLength` number of bytes at the current position and interprets the result as
+   * a big-endian, two's complement signed value supporting up to 48 bits of accuracy, then
+   * advances the position by `byteLength`.
+   *
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the buffer.
+   */
+  readIntBE(byteLength: number): number {
+    const value = this.buf.readIntBE(this.offset, byteLength);
+    this.offset += byteLength;
+
+    return value;
+  }
+
+  /**
+   * Reads `byteLength` number of bytes at the current position and interprets the result as
+   * a little-endian, two's complement signed value supporting up to 48 bits of accuracy,
+   * then advances the position by `byteLength`.
+   *
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the buffer.
+   */
+  readIntLE(byteLength: number): number {
+    const value = this.buf.readIntLE(this.offset, byteLength);
+    this.offset += byteLength;
+
+    return value;
+  }
+
+  /**
+   * Reads `length` bytes at the current position and decodes them to a string according to the
+   * character encoding, then advances the position by `length`.
+   *
+   * ```js
+   * const reader = new DynamicBufferReader(new DynamicBuffer('Hello world'));
+   * console.log(reader.readString(5));
+   * // Hello
+   * ```
+   *
+   * @param length Number of bytes to read, and it must between `0` and `reader.remaining`.
+   * @param encoding The character encoding to use, default from buffer encoding.
+   * @returns The string decodes from the buffer.
+   */
+  readString(length: number, encoding?: BufferEncoding): string {
+    checkRange('length', length, 0, this.remaining);
+
+    const value = this.buf.toString(encoding, this.offset, this.offset + length);
+    this.offset += length;
+
+    return value;
+  }
+
+  /**
+   * Reads an unsigned 8-bit integer at the current position, and advances the position by 1.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readUInt8(): number {
+    const value = this.buf.readUInt8(this.offset);
+    this.offset += 1;
+
+    return value;
+  }
+
+  /**
+   * Reads an unsigned, big-endian 16-bit integer at the current position, and advances the
+   * position by 2.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readUInt16BE(): number {
+    const value = this.buf.readUInt16BE(this.offset);
+    this.offset += 2;
+
+    return value;
+  }
+
+  /**
+   * Reads an unsigned, little-endian 16-bit integer at the current position, and advances the
+   * position by 2.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readUInt16LE(): number {
+    const value = this.buf.readUInt16LE(this.offset);
+    this.offset += 2;
+
+    return value;
+  }
+
+  /**
+   * Reads an unsigned, big-endian 32-bit integer at the current position, and advances the
+   * position by 4.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readUInt32BE(): number {
+    const value = this.buf.readUInt32BE(this.offset);
+    this.offset += 4;
+
+    return value;
+  }
+
+  /**
+   * Reads an unsigned, little-endian 32-bit integer at the current position, and advances the
+   * position by 4.
+   *
+   * @returns Integer read from the buffer.
+   */
+  readUInt32LE(): number {
+    const value = this.buf.readUInt32LE(this.offset);
+    this.offset += 4;
+
+    return value;
+  }
+
+  /**
+   * Reads `byteLength` number of bytes at the current position and interprets the result as
+   * an unsigned big-endian integer supporting up to 48 bits of accuracy, then advances the
+   * position by `byteLength`.
+   *
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the buffer.
+   */
+  readUIntBE(byteLength: number): number {
+    const value = this.buf.readUIntBE(this.offset, byteLength);
+    this.offset += byteLength;
+
+    return value;
+  }
+
+  /**
+   * Reads `byteLength` number of bytes at the current position and interprets the result as
+   * an unsigned little-endian integer supporting up to 48 bits of accuracy, then advances the
+   * position by `byteLength`.
+   *
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the buffer.
+   */
+  readUIntLE(byteLength: number): number {
+    const value = this.buf.readUIntLE(this.offset, byteLength);
+    this.offset += byteLength;
+
+    return value;
+  }
+
+  /**
+   * Moves the read position to the specified offset.
+   *
+   * ```js
+   * const reader = new DynamicBufferReader(new DynamicBuffer('Hello'));
+   * reader.seek(4);
+   * console.log(reader.readUInt8());
+   * // 111
+   * ```
+   *
+   * @param offset The new read position, and it must between `0` and `buf.length`.
+   * @returns The reference to this reader.
+   */
+  seek(offset: number): this {
+    checkRange('offset', offset, 0, this.buf.length);
+
+    this.offset = offset;
+
+    return this;
+  }
+
+  /**
+   * Advances the read position by `length` bytes without reading them.
+   *
+   * @param length Number of bytes to skip, and it must between `0` and `reader.remaining`.
+   * @returns The reference to this reader.
+   */
+  skip(length: number): this {
+    checkRange('length', length, 0, this.remaining);
+
+    this.offset += length;
+
+    return this;
+  }
+
+  /**
+   * Returns the current read position.
+   *
+   * ```js
+   * const reader = new DynamicBufferReader(new DynamicBuffer('Hello'));
+   * reader.readUInt16LE();
+   * console.log(reader.tell());
+   * // 2
+   * ```
+   */
+  tell(): number {
+    return this.offset;
+  }
+}
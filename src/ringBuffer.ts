@@ -0,0 +1,834 @@
+import { constants } from 'buffer';
+
+import { BufferEncoding } from './dynamicBuffer';
+import { DynamicBufferOverflowError } from './errors';
+import { checkRange } from './utils';
+
+/**
+ * The behavior when a write operation exceeds the free space of the ring buffer.
+ *
+ * - `'overwrite'`: overwrites the oldest data in the buffer.
+ * - `'reject'`: discards the write operation, and nothing will be written.
+ * - `'throw'`: throws a `DynamicBufferOverflowError`.
+ */
+export type DynamicRingBufferOverflowMode = 'overwrite' | 'reject' | 'throw';
+
+export interface DynamicRingBufferOptions {
+  /**
+   * The default character encoding to use for string operations, default 'utf8'.
+   */
+  encoding?: BufferEncoding;
+
+  /**
+   * The behavior when a write operation exceeds the free space, default `'overwrite'`.
+   */
+  overflow?: DynamicRingBufferOverflowMode;
+}
+
+/**
+ * The `DynamicRingBuffer` class is a circular buffer with a fixed capacity. The data is written
+ * after the end of the existing data and wraps around to the start of the allocated memory, and
+ * the oldest data will be overwritten (or the write operation will be rejected) when it's full.
+ *
+ * The indices of the ring buffer always start from the oldest byte, and the bytes can also be
+ * accessed by index like `DynamicBuffer`.
+ *
+ * ```js
+ * const buf = new DynamicRingBuffer(8);
+ * buf.append('Hello');
+ * buf.append(' world');
+ * console.log(buf.toString(), buf.length, buf.free);
+ * // lo world 8 0
+ * ```
+ */
+export class DynamicRingBuffer {
+  /**
+   * The allocated memory of the ring buffer.
+   */
+  private buffer: Buffer;
+
+  /**
+   * The default character encoding of the ring buffer.
+   */
+  private encoding: BufferEncoding;
+
+  /**
+   * The offset of the oldest byte in the allocated memory.
+   */
+  private head: number;
+
+  /**
+   * The behavior when a write operation exceeds the free space.
+   */
+  private overflow: DynamicRingBufferOverflowMode;
+
+  /**
+   * The number of bytes stored in the ring buffer.
+   */
+  private used: number;
+
+  // eslint-disable-next-line no-undef
+  [index: number]: number | undefined;
+
+  /**
+   * Create a ring buffer with the fixed capacity.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(1024, { overflow: 'reject' });
+   * ```
+   *
+   * @param capacity The number of bytes that the ring buffer can hold.
+   * @param options Ring buffer settings.
+   */
+  constructor(capacity: number, options: DynamicRingBufferOptions = {}) {
+    checkRange('capacity', capacity, 1, constants.MAX_LENGTH);
+
+    this.encoding = options.encoding || 'utf8';
+    this.overflow = options.overflow || 'overwrite';
+
+    if (!['overwrite', 'reject', 'throw'].includes(this.overflow)) {
+      throw new Error('Invalid overflow mode');
+    }
+
+    this.buffer = Buffer.alloc(capacity);
+    this.head = 0;
+    this.used = 0;
+
+    // eslint-disable-next-line no-constructor-return
+    return new Proxy(this, {
+      get: (target: this, p: string | symbol, receiver: any) => {
+        if (Reflect.has(target, p)) {
+          return Reflect.get(target, p, receiver);
+        }
+        if (typeof p === 'string' && Number(p) >= 0) {
+          return Reflect.apply(Reflect.get(target, 'read', receiver), target, [Number(p)]);
+        }
+
+        return Reflect.get(target, p, receiver);
+      },
+      set: (target: this, p: string | symbol, newValue: any, receiver: any) => {
+        if (Reflect.has(target, p)) {
+          return Reflect.set(target, p, newValue, receiver);
+        }
+        if (typeof p === 'string' && Number(p) >= 0) {
+          Reflect.apply(Reflect.get(target, 'writeByte', receiver), target, [newValue, Number(p)]);
+          return true;
+        }
+
+        return Reflect.set(target, p, newValue, receiver);
+      },
+    });
+  }
+
+  /**
+   * Returns the number of bytes that can be read from the ring buffer, it's the same as `length`.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(16);
+   * buf.append('Hello');
+   * console.log(buf.available);
+   * // 5
+   * ```
+   */
+  get available() {
+    return this.used;
+  }
+
+  /**
+   * Returns the fixed number of bytes that the ring buffer can hold.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(16);
+   * console.log(buf.capacity);
+   * // 16
+   * ```
+   */
+  get capacity() {
+    return this.buffer.length;
+  }
+
+  /**
+   * Returns the number of bytes that can be written without overwriting or rejecting.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(16);
+   * buf.append('Hello');
+   * console.log(buf.free);
+   * // 11
+   * ```
+   */
+  get free() {
+    return this.buffer.length - this.used;
+  }
+
+  /**
+   * Returns the number of bytes stored in the ring buffer.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(16);
+   * buf.append('Hello');
+   * console.log(buf.length);
+   * // 5
+   * ```
+   */
+  get length() {
+    return this.used;
+  }
+
+  /**
+   * Creates and returns an iterator for the bytes in the ring buffer from the oldest byte, it's
+   * equivalent to `buf.values()`.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(4);
+   * buf.append('Hello');
+   * console.log([...buf]);
+   * // [101, 108, 108, 111]
+   * ```
+   *
+   * @returns Iterator of the bytes.
+   */
+  [Symbol.iterator](): IterableIterator<number> {
+    return this.values();
+  }
+
+  /**
+   * Writes data to the end of the ring buffer. If the data exceeds the free space, the oldest data
+   * will be overwritten in `'overwrite'` mode, and only the last `capacity` bytes will be kept if
+   * the data is larger than the capacity.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(8);
+   * buf.append('Hello');
+   * buf.append(' world');
+   * console.log(buf.toString());
+   * // lo world
+   * ```
+   *
+   * @param data String or buffer to write to the ring buffer.
+   * @param encoding The character encoding to use, default from buffer encoding.
+   * @returns The number of bytes written into the ring buffer.
+   */
+  append(data: string | Buffer | Uint8Array, encoding?: BufferEncoding): number {
+    const bytes = typeof data === 'string'
+      ? Buffer.from(data, encoding || this.encoding)
+      : data;
+    const capacity = this.buffer.length;
+
+    if (bytes.length > this.free) {
+      if (this.overflow === 'throw') {
+        throw new DynamicBufferOverflowError(this.used + bytes.length, capacity);
+      } else if (this.overflow === 'reject') {
+        return 0;
+      }
+    }
+
+    if (bytes.length >= capacity) {
+      this.buffer.set(bytes.subarray(bytes.length - capacity));
+      this.head = 0;
+      this.used = capacity;
+      return capacity;
+    }
+
+    if (bytes.length > this.free) {
+      this.consume(bytes.length - this.free);
+    }
+
+    const tail = this.physicalOffset(this.used);
+    const count = capacity - tail < bytes.length ? capacity - tail : bytes.length;
+    this.buffer.set(bytes.subarray(0, count), tail);
+    this.buffer.set(bytes.subarray(count), 0);
+    this.used += bytes.length;
+
+    return bytes.length;
+  }
+
+  /**
+   * Gets the byte at the specified index, and the negative index counts back from the newest byte.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(16);
+   * buf.append('Hello');
+   * console.log(buf.at(-1));
+   * // 111
+   * ```
+   *
+   * @param index The index of the byte.
+   * @returns The byte at the index, or `undefined` if the index is out of range.
+   */
+  at(index: number): number | undefined {
+    return this.read(index < 0 ? this.used + index : index);
+  }
+
+  /**
+   * Removes all data from the ring buffer.
+   *
+   * @returns The reference to this ring buffer.
+   */
+  clear(): this {
+    this.head = 0;
+    this.used = 0;
+
+    return this;
+  }
+
+  /**
+   * Removes the specified number of bytes from the start of the ring buffer.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(16);
+   * buf.append('Hello world');
+   * buf.consume(6);
+   * console.log(buf.toString());
+   * // world
+   * ```
+   *
+   * @param length The number of bytes to remove, it'll remove all data if it's greater than the
+   * length of the ring buffer.
+   * @returns The number of bytes removed.
+   */
+  consume(length: number): number {
+    checkRange('length', length, 0);
+
+    const count = length < this.used ? length : this.used;
+
+    this.head = this.physicalOffset(count);
+    this.used -= count;
+    if (this.used === 0) {
+      this.head = 0;
+    }
+
+    return count;
+  }
+
+  /**
+   * Gets the first index at which the given value can be found in the ring buffer, or `-1` if it
+   * is not present.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(8);
+   * buf.append('Hello world');
+   * console.log(buf.indexOf('o w'));
+   * // 1
+   * ```
+   *
+   * @param value The value what to search for.
+   * @param byteOffset Where to begin searching in the ring buffer, and it'll be calculated from
+   * the end of ring buffer if it's negative. Default `0`.
+   * @param encoding The character encoding if the value is a string, default from buffer encoding.
+   * @returns The index of first occurrence of value in the ring buffer, and `-1` if the ring
+   * buffer does not contain this value.
+   */
+  indexOf(
+    value: string | Buffer | Uint8Array | number,
+    byteOffset: number = 0,
+    encoding: BufferEncoding = this.encoding,
+  ): number {
+    let search: Buffer | Uint8Array;
+    if (typeof value === 'number') {
+      search = Buffer.from([value]);
+    } else if (typeof value === 'string') {
+      search = Buffer.from(value, encoding);
+    } else {
+      search = value;
+    }
+
+    let start = byteOffset < 0 ? this.used + byteOffset : byteOffset;
+    if (start < 0) {
+      start = 0;
+    }
+    if (search.length === 0) {
+      return start < this.used ? start : this.used;
+    }
+
+    const [first, second] = this.peek();
+    if (!first) {
+      return -1;
+    }
+    if (!second) {
+      return first.indexOf(search, start);
+    }
+
+    if (start < first.length) {
+      const index = first.indexOf(search, start);
+      if (index !== -1) {
+        return index;
+      }
+    }
+
+    // Search the bytes across the boundary of two segments.
+    const boundaryStart = Math.max(start, first.length - search.length + 1);
+    const boundaryEnd = Math.min(this.used, first.length + search.length - 1);
+    if (boundaryStart < boundaryEnd) {
+      const index = this.toBuffer(boundaryStart, boundaryEnd).indexOf(search);
+      if (index !== -1) {
+        return boundaryStart + index;
+      }
+    }
+
+    const index = second.indexOf(search, start > first.length ? start - first.length : 0);
+    return index !== -1 ? first.length + index : -1;
+  }
+
+  /**
+   * Returns the data at the start of the ring buffer as up to two contiguous segments without
+   * copying. The segments are views (`subarray`) of the allocated memory, so they may be
+   * overwritten by the later write operations.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(8);
+   * buf.append('Hello world');
+   * const [first, second] = buf.peek();
+   * console.log(first.toString(), second.toString());
+   * // lo wo rld
+   * ```
+   *
+   * @param length The maximum number of bytes to peek, default the length of the ring buffer.
+   * @returns The segments of the data, it's an empty array if the ring buffer is empty.
+   */
+  peek(length: number = this.used): Buffer[] {
+    checkRange('length', length, 0);
+
+    const count = length < this.used ? length : this.used;
+    if (count === 0) {
+      return [];
+    }
+
+    const end = this.head + count;
+    if (end <= this.buffer.length) {
+      return [this.buffer.subarray(this.head, end)];
+    }
+
+    return [
+      this.buffer.subarray(this.head),
+      this.buffer.subarray(0, end - this.buffer.length),
+    ];
+  }
+
+  /**
+   * Reads a byte from the ring buffer at the specified position.
+   *
+   * @param offset Number of bytes to skip before starting to read, default `0`.
+   * @returns The byte at the position in the ring buffer.
+   */
+  read(offset: number = 0): number | undefined {
+    if (offset < 0 || offset >= this.used) {
+      return undefined;
+    }
+
+    return this.buffer[this.physicalOffset(offset)];
+  }
+
+  /**
+   * Reads a signed, big-endian 64-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 8`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readBigInt64BE(offset: number = 0): bigint {
+    return this.readValue(offset, 8, (buf, pos) => buf.readBigInt64BE(pos));
+  }
+
+  /**
+   * Reads a signed, little-endian 64-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 8`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readBigInt64LE(offset: number = 0): bigint {
+    return this.readValue(offset, 8, (buf, pos) => buf.readBigInt64LE(pos));
+  }
+
+  /**
+   * Reads an unsigned, big-endian 64-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 8`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readBigUInt64BE(offset: number = 0): bigint {
+    return this.readValue(offset, 8, (buf, pos) => buf.readBigUInt64BE(pos));
+  }
+
+  /**
+   * Reads an unsigned, little-endian 64-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 8`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readBigUInt64LE(offset: number = 0): bigint {
+    return this.readValue(offset, 8, (buf, pos) => buf.readBigUInt64LE(pos));
+  }
+
+  /**
+   * Reads a 64-bit, big-endian double from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 8`, default `0`.
+   * @returns Number read from the ring buffer at the specified offset.
+   */
+  readDoubleBE(offset: number = 0): number {
+    return this.readValue(offset, 8, (buf, pos) => buf.readDoubleBE(pos));
+  }
+
+  /**
+   * Reads a 64-bit, little-endian double from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 8`, default `0`.
+   * @returns Number read from the ring buffer at the specified offset.
+   */
+  readDoubleLE(offset: number = 0): number {
+    return this.readValue(offset, 8, (buf, pos) => buf.readDoubleLE(pos));
+  }
+
+  /**
+   * Reads a 32-bit, big-endian float from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 4`, default `0`.
+   * @returns Number read from the ring buffer at the specified offset.
+   */
+  readFloatBE(offset: number = 0): number {
+    return this.readValue(offset, 4, (buf, pos) => buf.readFloatBE(pos));
+  }
+
+  /**
+   * Reads a 32-bit, little-endian float from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 4`, default `0`.
+   * @returns Number read from the ring buffer at the specified offset.
+   */
+  readFloatLE(offset: number = 0): number {
+    return this.readValue(offset, 4, (buf, pos) => buf.readFloatLE(pos));
+  }
+
+  /**
+   * Reads a signed 8-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 1`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readInt8(offset: number = 0): number {
+    return this.readValue(offset, 1, (buf, pos) => buf.readInt8(pos));
+  }
+
+  /**
+   * Reads a signed, big-endian 16-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 2`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readInt16BE(offset: number = 0): number {
+    return this.readValue(offset, 2, (buf, pos) => buf.readInt16BE(pos));
+  }
+
+  /**
+   * Reads a signed, little-endian 16-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 2`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readInt16LE(offset: number = 0): number {
+    return this.readValue(offset, 2, (buf, pos) => buf.readInt16LE(pos));
+  }
+
+  /**
+   * Reads a signed, big-endian 32-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 4`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readInt32BE(offset: number = 0): number {
+    return this.readValue(offset, 4, (buf, pos) => buf.readInt32BE(pos));
+  }
+
+  /**
+   * Reads a signed, little-endian 32-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 4`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readInt32LE(offset: number = 0): number {
+    return this.readValue(offset, 4, (buf, pos) => buf.readInt32LE(pos));
+  }
+
+  /**
+   * Reads `byteLength` number of bytes from the ring buffer at the specified `offset` and
+   * interprets the result as a big-endian, two's complement signed value supporting up to 48 bits
+   * of accuracy.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - byteLength`.
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readIntBE(offset: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
+
+    return this.readValue(
+      offset,
+      byteLength,
+      (buf, pos) => buf.readIntBE(pos, byteLength),
+    );
+  }
+
+  /**
+   * Reads `byteLength` number of bytes from the ring buffer at the specified `offset` and
+   * interprets the result as a little-endian, two's complement signed value supporting up to 48
+   * bits of accuracy.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - byteLength`.
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readIntLE(offset: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
+
+    return this.readValue(
+      offset,
+      byteLength,
+      (buf, pos) => buf.readIntLE(pos, byteLength),
+    );
+  }
+
+  /**
+   * Reads an unsigned 8-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 1`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readUInt8(offset: number = 0): number {
+    return this.readValue(offset, 1, (buf, pos) => buf.readUInt8(pos));
+  }
+
+  /**
+   * Reads an unsigned, big-endian 16-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 2`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readUInt16BE(offset: number = 0): number {
+    return this.readValue(offset, 2, (buf, pos) => buf.readUInt16BE(pos));
+  }
+
+  /**
+   * Reads an unsigned, little-endian 16-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 2`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readUInt16LE(offset: number = 0): number {
+    return this.readValue(offset, 2, (buf, pos) => buf.readUInt16LE(pos));
+  }
+
+  /**
+   * Reads an unsigned, big-endian 32-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 4`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readUInt32BE(offset: number = 0): number {
+    return this.readValue(offset, 4, (buf, pos) => buf.readUInt32BE(pos));
+  }
+
+  /**
+   * Reads an unsigned, little-endian 32-bit integer from the ring buffer at the specified `offset`.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - 4`, default `0`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readUInt32LE(offset: number = 0): number {
+    return this.readValue(offset, 4, (buf, pos) => buf.readUInt32LE(pos));
+  }
+
+  /**
+   * Reads `byteLength` number of bytes from the ring buffer at the specified `offset` and
+   * interprets the result as a big-endian, unsigned value supporting up to 48 bits of accuracy.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - byteLength`.
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readUIntBE(offset: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
+
+    return this.readValue(
+      offset,
+      byteLength,
+      (buf, pos) => buf.readUIntBE(pos, byteLength),
+    );
+  }
+
+  /**
+   * Reads `byteLength` number of bytes from the ring buffer at the specified `offset` and
+   * interprets the result as a little-endian, unsigned value supporting up to 48 bits of accuracy.
+   *
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - byteLength`.
+   * @param byteLength Number of bytes to read, and it must satisfy `0 < byteLength <= 6`.
+   * @returns Integer read from the ring buffer at the specified offset.
+   */
+  readUIntLE(offset: number, byteLength: number): number {
+    checkRange('byteLength', byteLength, 1, 6);
+
+    return this.readValue(
+      offset,
+      byteLength,
+      (buf, pos) => buf.readUIntLE(pos, byteLength),
+    );
+  }
+
+  /**
+   * Removes the specified number of bytes from the start of the ring buffer, and returns a copy
+   * of the removed bytes.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(16);
+   * buf.append('Hello world');
+   * console.log(buf.shift(5).toString());
+   * // Hello
+   * ```
+   *
+   * @param length The number of bytes to remove.
+   * @returns The removed bytes.
+   */
+  shift(length: number): Buffer {
+    checkRange('length', length, 0);
+
+    const data = this.toBuffer(0, length);
+    this.consume(data.length);
+
+    return data;
+  }
+
+  /**
+   * Copies the data of the ring buffer onto a new `Buffer` instance in order.
+   *
+   * ```js
+   * const buf = new DynamicRingBuffer(8);
+   * buf.append('Hello world');
+   * console.log(buf.toBuffer());
+   * // <Buffer 6c 6f 20 77 6f 72 6c 64>
+   * ```
+   *
+   * @param start The byte offset to start coping at, default 0.
+   * @param end The byte offset to stop coping at (not inclusive), default the length of the ring
+   * buffer.
+   * @returns The new buffer contains the data in the ring buffer.
+   */
+  toBuffer(start: number = 0, end: number = this.used): Buffer {
+    const startOffset = start > 0 ? Math.min(start, this.used) : 0;
+    const endOffset = end < this.used ? end : this.used;
+    if (endOffset <= startOffset) {
+      return Buffer.alloc(0);
+    }
+
+    const newBuffer = Buffer.alloc(endOffset - startOffset);
+    const physicalStart = this.physicalOffset(startOffset);
+    const count = this.buffer.length - physicalStart;
+
+    if (count >= newBuffer.length) {
+      this.buffer.copy(newBuffer, 0, physicalStart, physicalStart + newBuffer.length);
+    } else {
+      this.buffer.copy(newBuffer, 0, physicalStart);
+      this.buffer.copy(newBuffer, count, 0, newBuffer.length - count);
+    }
+
+    return newBuffer;
+  }
+
+  /**
+   * Decodes the data of the ring buffer to a string according to the specified character
+   * encoding.
+   *
+   * @param encoding The character encoding to use, default from buffer encoding.
+   * @param start The byte offset to start decoding at, default 0.
+   * @param end The byte offset to stop decoding at (not inclusive), default the length of the
+   * ring buffer.
+   * @returns The string decodes from the ring buffer with the specified range.
+   */
+  toString(
+    encoding: BufferEncoding | undefined = this.encoding,
+    start: number = 0,
+    end: number = this.used,
+  ): string {
+    return this.toBuffer(start, end).toString(encoding);
+  }
+
+  /**
+   * Creates and returns an iterator for the bytes in the ring buffer from the oldest byte. It
+   * iterates over a copy of the data, so the later write operations will not change the result.
+   *
+   * @returns Iterator of the bytes.
+   */
+  values(): IterableIterator<number> {
+    return this.toBuffer().values();
+  }
+
+  /**
+   * Converts the index of the ring buffer to the offset in the allocated memory.
+   *
+   * @param offset The index in the ring buffer.
+   * @returns The offset in the allocated memory.
+   */
+  private physicalOffset(offset: number): number {
+    return (this.head + offset) % this.buffer.length;
+  }
+
+  /**
+   * Reads a value with the specified number of bytes, and the bytes will be copied to a temporary
+   * buffer if they wrap around the end of the allocated memory.
+   *
+   * @param offset Number of bytes to skip before starting to read.
+   * @param byteLength Number of bytes of the value.
+   * @param reader The function to read value from the buffer at the position.
+   * @returns The value read from the ring buffer.
+   */
+  private readValue<T>(
+    offset: number,
+    byteLength: number,
+    reader: (buf: Buffer, pos: number) => T,
+  ): T {
+    if (this.used < byteLength) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+
+    checkRange('offset', offset, 0, this.used - byteLength);
+
+    const pos = this.physicalOffset(offset);
+    if (pos + byteLength <= this.buffer.length) {
+      return reader(this.buffer, pos);
+    }
+
+    return reader(this.toBuffer(offset, offset + byteLength), 0);
+  }
+
+  /**
+   * Writes a byte to the ring buffer at the specified position.
+   *
+   * @param value The byte to write.
+   * @param offset The position to write, and it must between `0` and `buf.length - 1`.
+   */
+  private writeByte(value: number, offset: number): void {
+    checkRange('offset', offset, 0, this.used - 1);
+
+    this.buffer[this.physicalOffset(offset)] = value;
+  }
+}
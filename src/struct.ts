@@ -0,0 +1,497 @@
+import { BufferEncoding, DynamicBuffer } from './dynamicBuffer';
+import { checkRange } from './utils';
+
+/**
+ * The numeric field types of the struct, and the 64-bit integer types are read as `bigint`.
+ */
+export type DynamicBufferStructPrimitive = 'u8' | 'i8'
+  | 'u16le' | 'u16be' | 'i16le' | 'i16be'
+  | 'u32le' | 'u32be' | 'i32le' | 'i32be'
+  | 'u64le' | 'u64be' | 'i64le' | 'i64be'
+  | 'f32le' | 'f32be' | 'f64le' | 'f64be';
+
+/**
+ * A fixed-length string field, it'll be padded with `0` if the string is shorter than the
+ * length, and the trailing `\0` characters will be removed when decoding.
+ */
+export interface DynamicBufferStructString {
+  type: 'string';
+
+  /**
+   * The number of bytes of the field.
+   */
+  length: number;
+
+  /**
+   * The character encoding of the string, default 'utf8'.
+   */
+  encoding?: BufferEncoding;
+}
+
+/**
+ * A fixed-length raw bytes field, and it'll be decoded as a `Buffer`.
+ */
+export interface DynamicBufferStructBytes {
+  type: 'bytes';
+
+  /**
+   * The number of bytes of the field.
+   */
+  length: number;
+}
+
+/**
+ * A fixed-length array field, and the missing elements will be filled with `0`.
+ */
+export interface DynamicBufferStructArray {
+  type: 'array';
+
+  /**
+   * The type of the elements.
+   */
+  // eslint-disable-next-line no-use-before-define
+  of: DynamicBufferStructField;
+
+  /**
+   * The number of elements.
+   */
+  length: number;
+}
+
+/**
+ * The padding bytes, they'll be filled with `0` and skipped when decoding.
+ */
+export interface DynamicBufferStructPadding {
+  type: 'padding';
+
+  /**
+   * The number of bytes of the padding.
+   */
+  length: number;
+}
+
+export type DynamicBufferStructField = DynamicBufferStructPrimitive
+  | DynamicBufferStructString
+  | DynamicBufferStructBytes
+  | DynamicBufferStructArray
+  | DynamicBufferStructPadding
+  // eslint-disable-next-line no-use-before-define
+  | DynamicBufferStruct<unknown>;
+
+export type DynamicBufferStructSchema = Record<string, DynamicBufferStructField>;
+
+/**
+ * The value type of a struct field.
+ */
+export type DynamicBufferStructFieldValue<F> = F extends 'u64le' | 'u64be' | 'i64le' | 'i64be'
+  ? bigint
+  : F extends DynamicBufferStructPrimitive ? number
+    : F extends DynamicBufferStructString ? string
+      : F extends DynamicBufferStructBytes ? Buffer
+        : F extends { type: 'array', of: infer E } ? DynamicBufferStructFieldValue<E>[]
+          // eslint-disable-next-line no-use-before-define
+          : F extends DynamicBufferStruct<infer T> ? T
+            : never;
+
+/**
+ * The object type of a struct schema, and the padding fields are excluded.
+ */
+export type DynamicBufferStructValue<S extends DynamicBufferStructSchema> = {
+  [K in keyof S as S[K] extends DynamicBufferStructPadding ? never : K]:
+  DynamicBufferStructFieldValue<S[K]>;
+};
+
+interface PrimitiveCodec<V extends number | bigint = number | bigint> {
+  size: number;
+  read(buf: Buffer, offset: number): V;
+  write(buf: Buffer, value: V, offset: number): number;
+}
+
+const Primitives: {
+  [P in DynamicBufferStructPrimitive]: PrimitiveCodec<DynamicBufferStructFieldValue<P>>;
+} = {
+  u8: {
+    size: 1,
+    read: (buf, offset) => buf.readUInt8(offset),
+    write: (buf, value, offset) => buf.writeUInt8(value, offset),
+  },
+  i8: {
+    size: 1,
+    read: (buf, offset) => buf.readInt8(offset),
+    write: (buf, value, offset) => buf.writeInt8(value, offset),
+  },
+  u16le: {
+    size: 2,
+    read: (buf, offset) => buf.readUInt16LE(offset),
+    write: (buf, value, offset) => buf.writeUInt16LE(value, offset),
+  },
+  u16be: {
+    size: 2,
+    read: (buf, offset) => buf.readUInt16BE(offset),
+    write: (buf, value, offset) => buf.writeUInt16BE(value, offset),
+  },
+  i16le: {
+    size: 2,
+    read: (buf, offset) => buf.readInt16LE(offset),
+    write: (buf, value, offset) => buf.writeInt16LE(value, offset),
+  },
+  i16be: {
+    size: 2,
+    read: (buf, offset) => buf.readInt16BE(offset),
+    write: (buf, value, offset) => buf.writeInt16BE(value, offset),
+  },
+  u32le: {
+    size: 4,
+    read: (buf, offset) => buf.readUInt32LE(offset),
+    write: (buf, value, offset) => buf.writeUInt32LE(value, offset),
+  },
+  u32be: {
+    size: 4,
+    read: (buf, offset) => buf.readUInt32BE(offset),
+    write: (buf, value, offset) => buf.writeUInt32BE(value, offset),
+  },
+  i32le: {
+    size: 4,
+    read: (buf, offset) => buf.readInt32LE(offset),
+    write: (buf, value, offset) => buf.writeInt32LE(value, offset),
+  },
+  i32be: {
+    size: 4,
+    read: (buf, offset) => buf.readInt32BE(offset),
+    write: (buf, value, offset) => buf.writeInt32BE(value, offset),
+  },
+  u64le: {
+    size: 8,
+    read: (buf, offset) => buf.readBigUInt64LE(offset),
+    write: (buf, value, offset) => buf.writeBigUInt64LE(value, offset),
+  },
+  u64be: {
+    size: 8,
+    read: (buf, offset) => buf.readBigUInt64BE(offset),
+    write: (buf, value, offset) => buf.writeBigUInt64BE(value, offset),
+  },
+  i64le: {
+    size: 8,
+    read: (buf, offset) => buf.readBigInt64LE(offset),
+    write: (buf, value, offset) => buf.writeBigInt64LE(value, offset),
+  },
+  i64be: {
+    size: 8,
+    read: (buf, offset) => buf.readBigInt64BE(offset),
+    write: (buf, value, offset) => buf.writeBigInt64BE(value, offset),
+  },
+  f32le: {
+    size: 4,
+    read: (buf, offset) => buf.readFloatLE(offset),
+    write: (buf, value, offset) => buf.writeFloatLE(value, offset),
+  },
+  f32be: {
+    size: 4,
+    read: (buf, offset) => buf.readFloatBE(offset),
+    write: (buf, value, offset) => buf.writeFloatBE(value, offset),
+  },
+  f64le: {
+    size: 8,
+    read: (buf, offset) => buf.readDoubleLE(offset),
+    write: (buf, value, offset) => buf.writeDoubleLE(value, offset),
+  },
+  f64be: {
+    size: 8,
+    read: (buf, offset) => buf.readDoubleBE(offset),
+    write: (buf, value, offset) => buf.writeDoubleBE(value, offset),
+  },
+};
+
+/**
+ * The `DynamicBufferStruct` class describes a binary record with fixed size, use `defineStruct`
+ * to create a struct with the TypeScript types inferred from the schema.
+ *
+ * The fields are laid out in the order of the schema without implicit alignment, and you can use
+ * `{ type: 'padding', length }` fields to align them.
+ */
+export class DynamicBufferStruct<T> {
+  /**
+   * The fields of the struct.
+   */
+  readonly schema: DynamicBufferStructSchema;
+
+  /**
+   * The number of bytes of the encoded struct.
+   */
+  readonly size: number;
+
+  /**
+   * The offsets of the fields in the encoded struct.
+   */
+  private offsets: Record<string, number>;
+
+  /**
+   * Create a struct with the schema.
+   *
+   * @param schema The fields of the struct.
+   */
+  constructor(schema: DynamicBufferStructSchema) {
+    this.schema = schema;
+    this.offsets = {};
+
+    let size = 0;
+    Object.keys(schema).forEach((name) => {
+      this.offsets[name] = size;
+      size += DynamicBufferStruct.fieldSize(name, schema[name]);
+    });
+    this.size = size;
+  }
+
+  /**
+   * Decodes the struct from the buffer at the specified offset.
+   *
+   * ```js
+   * const Point = defineStruct({ x: 'i16le', y: 'i16le' });
+   * const buf = new DynamicBuffer(Buffer.from([1, 0, 2, 0]));
+   * console.log(Point.decode(buf));
+   * // { x: 1, y: 2 }
+   * ```
+   *
+   * @param buf The buffer to read from.
+   * @param offset Number of bytes to skip before starting to read, and it must between `0` and
+   * `buf.length - struct.size`, default `0`.
+   * @returns The decoded object.
+   */
+  decode(buf: DynamicBuffer | Buffer, offset: number = 0): T {
+    if (buf.length < this.size) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+
+    checkRange('offset', offset, 0, buf.length - this.size);
+
+    return this.decodeFrom(buf.subarray(offset, offset + this.size), 0) as T;
+  }
+
+  /**
+   * Encodes the object and writes it to the buffer at the specified offset, and the buffer will
+   * be extended if it's not large enough.
+   *
+   * ```js
+   * const Point = defineStruct({ x: 'i16le', y: 'i16le' });
+   * const buf = new DynamicBuffer();
+   * Point.encode({ x: 1, y: 2 }, buf);
+   * console.log(buf.toBuffer());
+   * // <Buffer 01 00 02 00>
+   * ```
+   *
+   * @param value The object to encode.
+   * @param buf The buffer to write to.
+   * @param offset Number of bytes to skip before starting to write, default the end of the buffer.
+   * @returns `offset` plus the number of bytes written.
+   */
+  encode(value: T, buf: DynamicBuffer, offset: number = buf.length): number {
+    checkRange('offset', offset, 0);
+
+    const data = Buffer.alloc(this.size);
+    this.encodeInto(value as Record<string, unknown>, data, 0);
+
+    if (buf.length < offset + this.size) {
+      buf.setLength(offset + this.size);
+    }
+    buf.set(data, offset);
+
+    return offset + this.size;
+  }
+
+  /**
+   * Returns the offset of the field in the encoded struct.
+   *
+   * ```js
+   * const Header = defineStruct({ magic: 'u32be', version: 'u8', flags: 'u16le' });
+   * console.log(Header.offsetOf('flags'));
+   * // 5
+   * ```
+   *
+   * @param name The name of the field.
+   * @returns The offset of the field.
+   */
+  offsetOf(name: keyof T & string): number {
+    if (!(name in this.offsets)) {
+      throw new Error(`Unknown struct field '${name}'`);
+    }
+
+    return this.offsets[name];
+  }
+
+  /**
+   * Reads the fields of the struct from the data at the specified offset.
+   *
+   * @param data The buffer to read from.
+   * @param offset The offset of the struct in the data.
+   * @returns The decoded object.
+   */
+  private decodeFrom(data: Buffer, offset: number): Record<string, unknown> {
+    const value: Record<string, unknown> = {};
+
+    Object.keys(this.schema).forEach((name) => {
+      const field = this.schema[name];
+      if (!DynamicBufferStruct.isPadding(field)) {
+        value[name] = DynamicBufferStruct.decodeField(field, data, offset + this.offsets[name]);
+      }
+    });
+
+    return value;
+  }
+
+  /**
+   * Writes the fields of the struct into the data at the specified offset.
+   *
+   * @param value The object to encode.
+   * @param data The buffer to write to, and it must be filled with `0`.
+   * @param offset The offset of the struct in the data.
+   */
+  private encodeInto(value: Record<string, unknown>, data: Buffer, offset: number): void {
+    Object.keys(this.schema).forEach((name) => {
+      const field = this.schema[name];
+      if (!DynamicBufferStruct.isPadding(field)) {
+        DynamicBufferStruct.encodeField(field, value[name], data, offset + this.offsets[name]);
+      }
+    });
+  }
+
+  /**
+   * Reads the field value from the data at the specified offset.
+   *
+   * @param field The field to decode.
+   * @param data The buffer to read from.
+   * @param offset The offset of the field in the data.
+   * @returns The value of the field.
+   */
+  private static decodeField(
+    field: DynamicBufferStructField,
+    data: Buffer,
+    offset: number,
+  ): unknown {
+    if (field instanceof DynamicBufferStruct) {
+      return field.decodeFrom(data, offset);
+    }
+    if (typeof field === 'string') {
+      return Primitives[field].read(data, offset);
+    }
+
+    switch (field.type) {
+      case 'string':
+        return data.toString(field.encoding || 'utf8', offset, offset + field.length)
+          .replace(/\0+$/, '');
+      case 'bytes':
+        return Buffer.from(data.subarray(offset, offset + field.length));
+      case 'array': {
+        const size = DynamicBufferStruct.fieldSize('', field.of);
+        const values: unknown[] = [];
+        for (let i = 0; i < field.length; i += 1) {
+          values.push(DynamicBufferStruct.decodeField(field.of, data, offset + size * i));
+        }
+        return values;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Writes the field value into the data at the specified offset.
+   *
+   * @param field The field to encode.
+   * @param value The value of the field.
+   * @param data The buffer to write to, and it must be filled with `0`.
+   * @param offset The offset of the field in the data.
+   */
+  private static encodeField(
+    field: DynamicBufferStructField,
+    value: unknown,
+    data: Buffer,
+    offset: number,
+  ): void {
+    if (field instanceof DynamicBufferStruct) {
+      field.encodeInto(value as Record<string, unknown>, data, offset);
+    } else if (typeof field === 'string') {
+      const codec: PrimitiveCodec = Primitives[field];
+      codec.write(data, value as number | bigint, offset);
+    } else if (field.type === 'string') {
+      data.write(value as string, offset, field.length, field.encoding || 'utf8');
+    } else if (field.type === 'bytes') {
+      data.set((value as Uint8Array).subarray(0, field.length), offset);
+    } else if (field.type === 'array') {
+      const values = value as unknown[];
+      const size = DynamicBufferStruct.fieldSize('', field.of);
+      const count = values.length < field.length ? values.length : field.length;
+      for (let i = 0; i < count; i += 1) {
+        DynamicBufferStruct.encodeField(field.of, values[i], data, offset + size * i);
+      }
+    }
+  }
+
+  /**
+   * Returns the number of bytes of the field, and throws an error if the field is invalid.
+   *
+   * @param name The name of the field.
+   * @param field The field to calculate.
+   * @returns The number of bytes of the field.
+   */
+  private static fieldSize(name: string, field: DynamicBufferStructField): number {
+    if (field instanceof DynamicBufferStruct) {
+      return field.size;
+    }
+    if (typeof field === 'string') {
+      if (!(field in Primitives)) {
+        throw new Error(`Invalid struct field type '${field}'`);
+      }
+      return Primitives[field].size;
+    }
+
+    checkRange(`${name}.length`, field?.length, 0);
+
+    switch (field.type) {
+      case 'string':
+      case 'bytes':
+      case 'padding':
+        return field.length;
+      case 'array':
+        return DynamicBufferStruct.fieldSize(name, field.of) * field.length;
+      default: {
+        const unknownField: never = field;
+        throw new Error(`Invalid struct field type '${Reflect.get(unknownField, 'type')}'`);
+      }
+    }
+  }
+
+  /**
+   * Returns true if the field is a padding field, false otherwise.
+   *
+   * @param field The field to check.
+   */
+  private static isPadding(field: DynamicBufferStructField): field is DynamicBufferStructPadding {
+    return typeof field === 'object'
+      && !(field instanceof DynamicBufferStruct)
+      && field.type === 'padding';
+  }
+}
+
+/**
+ * Defines a struct with the schema, and the type of the decoded object is inferred from the
+ * schema.
+ *
+ * ```ts
+ * const Reading = defineStruct({
+ *   id: 'u32le',
+ *   temp: 'f32be',
+ *   name: { type: 'string', length: 16 },
+ * });
+ *
+ * const buf = new DynamicBuffer();
+ * Reading.encode({ id: 1, temp: 21.5, name: 'kitchen' }, buf);
+ * const reading = Reading.decode(buf, 0);
+ * // { id: number, temp: number, name: string }
+ * ```
+ *
+ * @param schema The fields of the struct, and the fields are encoded in the order of the schema.
+ * @returns The struct.
+ */
+export const defineStruct = <S extends DynamicBufferStructSchema>(
+  schema: S,
+): DynamicBufferStruct<DynamicBufferStructValue<S>> => new DynamicBufferStruct(schema);
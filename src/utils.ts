@@ -1,4 +1,4 @@
-import { DynamicBuffer } from './dynamicBuffer';
+import { BufferEncoding, DynamicBuffer } from './dynamicBuffer';
 
 /**
  * Returns true if obj is a DynamicBuffer, false otherwise.
@@ -84,3 +84,66 @@ export const swap = (buf: Buffer, i: number, j: number) => {
   // eslint-disable-next-line no-param-reassign
   buf[j] = t;
 };
+
+/**
+ * Converts the search value to a Buffer, and throws an error if it's empty.
+ *
+ * @param field The field name of the value.
+ * @param value The value to convert, a string will be encoded as UTF-8.
+ * @returns The value as a Buffer.
+ */
+export const toSearchBuffer = (
+  field: string,
+  value: string | Buffer | Uint8Array | number | DynamicBuffer,
+): Buffer => {
+  let search: Buffer;
+  if (typeof value === 'number') {
+    search = Buffer.from([value]);
+  } else if (typeof value === 'string') {
+    search = Buffer.from(value, 'utf8');
+  } else if (value instanceof DynamicBuffer) {
+    search = value.subarray();
+  } else {
+    search = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+  }
+
+  if (search.length === 0) {
+    throw new RangeError(`The value of '${field}' must not be empty`);
+  }
+
+  return search;
+};
+
+/**
+ * Returns the number of bytes of the null terminator with the character encoding, it's 2 bytes
+ * for UTF-16 and 1 byte for others.
+ *
+ * @param encoding The character encoding.
+ * @returns The number of bytes of the null terminator.
+ */
+export const nullTerminatorSize = (encoding: BufferEncoding): number => (
+  ['utf16le', 'ucs2', 'ucs-2'].includes(encoding) ? 2 : 1
+);
+
+/**
+ * Finds the null terminator in the data from the offset, and the terminator of 2 bytes must be
+ * aligned to the offset.
+ *
+ * @param data The data to search.
+ * @param offset The offset to start searching.
+ * @param size The number of bytes of the null terminator.
+ * @returns The offset of the null terminator, or `-1` if not found.
+ */
+export const findNullTerminator = (data: Buffer, offset: number, size: number): number => {
+  if (size === 1) {
+    return data.indexOf(0, offset);
+  }
+
+  for (let i = offset; i + size <= data.length; i += size) {
+    if (data[i] === 0 && data[i + 1] === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+};
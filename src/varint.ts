@@ -0,0 +1,152 @@
+/* eslint-disable no-bitwise */
+import type { DynamicBufferReadResult } from './dynamicBuffer';
+
+/**
+ * The maximum number of bytes of a variable-length safe integer, 8 bytes hold 56 bits.
+ */
+export const MaxVarUIntBytes = 8;
+
+/**
+ * Encodes a non-negative BigInt as unsigned LEB128.
+ *
+ * @param value The value to encode.
+ * @returns The encoded bytes.
+ */
+export const encodeULEB128 = (value: bigint): number[] => {
+  const bytes: number[] = [];
+  let rest = value;
+
+  do {
+    let byte = Number(rest & 0x7fn);
+    rest >>= 7n;
+    if (rest !== 0n) {
+      byte |= 0x80;
+    }
+
+    bytes.push(byte);
+  } while (rest !== 0n);
+
+  return bytes;
+};
+
+/**
+ * Encodes a BigInt as signed LEB128.
+ *
+ * @param value The value to encode.
+ * @returns The encoded bytes.
+ */
+export const encodeSLEB128 = (value: bigint): number[] => {
+  const bytes: number[] = [];
+  let rest = value;
+  let hasMore = true;
+
+  while (hasMore) {
+    let byte = Number(rest & 0x7fn);
+    rest >>= 7n;
+
+    if ((rest === 0n && (byte & 0x40) === 0) || (rest === -1n && (byte & 0x40) !== 0)) {
+      hasMore = false;
+    } else {
+      byte |= 0x80;
+    }
+
+    bytes.push(byte);
+  }
+
+  return bytes;
+};
+
+/**
+ * Decodes an unsigned LEB128 value from the bytes at the specified offset. It'll throw an error
+ * if the value is not terminated before `end`, or it's longer than `maxBytes`.
+ *
+ * @param bytes The bytes to decode.
+ * @param offset The position of the first byte of the value.
+ * @param end The position after the last readable byte.
+ * @param maxBytes The maximum number of bytes of the encoded value, no limit if it's not set.
+ * @returns The decoded value, and the number of bytes read.
+ */
+export const decodeULEB128 = (
+  bytes: Uint8Array,
+  offset: number,
+  end: number,
+  maxBytes?: number,
+): DynamicBufferReadResult<bigint> => {
+  let value = 0n;
+  let bytesRead = 0;
+  let byte: number;
+
+  do {
+    if (offset + bytesRead >= end) {
+      throw new RangeError('Attempt to access memory outside buffer bounds');
+    }
+    if (maxBytes !== undefined && bytesRead >= maxBytes) {
+      throw new RangeError(`The variable-length integer is longer than ${maxBytes} bytes`);
+    }
+
+    byte = bytes[offset + bytesRead];
+    value |= BigInt(byte & 0x7f) << BigInt(bytesRead * 7);
+    bytesRead += 1;
+  } while (byte & 0x80);
+
+  return { value, bytesRead };
+};
+
+/**
+ * Checks the LEB128 encoded value is not overlong, it'll throw an error if the last byte only
+ * contains padding bits (`0x00`, or `0x7f` for negative signed values) that can be removed.
+ *
+ * @param bytes The encoded bytes.
+ * @param offset The position of the first byte of the value.
+ * @param bytesRead The number of bytes of the encoded value.
+ * @param signed Whether the value is encoded as signed LEB128 or not.
+ */
+export const checkOverlongLEB128 = (
+  bytes: Uint8Array,
+  offset: number,
+  bytesRead: number,
+  signed: boolean,
+): void => {
+  if (bytesRead < 2) {
+    return;
+  }
+
+  const last = bytes[offset + bytesRead - 1];
+  const signBit = bytes[offset + bytesRead - 2] & 0x40;
+
+  if ((last === 0x00 && (!signed || signBit === 0)) || (signed && last === 0x7f && signBit)) {
+    throw new RangeError('The variable-length integer has an overlong encoding');
+  }
+};
+
+/**
+ * Converts an unsigned LEB128 decoded value to signed by the sign bit of the last byte.
+ *
+ * @param value The decoded value.
+ * @param bytesRead The number of bytes of the encoded value.
+ * @returns The signed value.
+ */
+export const toSigned = (value: bigint, bytesRead: number): bigint => {
+  const bits = BigInt(bytesRead * 7);
+
+  return (value >> (bits - 1n)) & 1n ? value - (1n << bits) : value;
+};
+
+/**
+ * Maps a signed integer to an unsigned integer by zigzag encoding, for example, `0 -> 0`,
+ * `-1 -> 1`, `1 -> 2`.
+ *
+ * @param value The signed value.
+ * @returns The zigzag encoded value.
+ */
+export const zigzagEncode = (value: bigint): bigint => (
+  value >= 0n ? value * 2n : -value * 2n - 1n
+);
+
+/**
+ * Maps a zigzag encoded integer back to the signed integer.
+ *
+ * @param value The zigzag encoded value.
+ * @returns The signed value.
+ */
+export const zigzagDecode = (value: bigint): bigint => (value >> 1n) ^ -(value & 1n);
@@ -0,0 +1,109 @@
+import { Writable, WritableOptions } from 'stream';
+
+import { BufferEncoding, DynamicBuffer } from './dynamicBuffer';
+import { DynamicBufferOverflowError } from './errors';
+
+/**
+ * The `DynamicBufferWritable` class is a writable stream that appends all written chunks to a
+ * `DynamicBuffer`. The stream will emit a `DynamicBufferOverflowError` if the buffer can't hold
+ * the chunk because of the maximum size, and the chunk will not be written.
+ *
+ * ```js
+ * const stream = new DynamicBufferWritable();
+ *
+ * fs.createReadStream('data.bin').pipe(stream);
+ * const buf = await stream.finished;
+ * ```
+ */
+export class DynamicBufferWritable extends Writable {
+  /**
+   * The buffer that the written chunks appended to.
+   */
+  readonly buffer: DynamicBuffer;
+
+  /**
+   * A promise that will be resolved with the buffer after all data has been written, or be
+   * rejected if the stream emits an error.
+   */
+  readonly finished: Promise<DynamicBuffer>;
+
+  /**
+   * Create a writable stream to append data into the buffer.
+   *
+   * @param buf The buffer to append data to, default a new empty buffer.
+   * @param options The options of the writable stream.
+   */
+  constructor(buf?: DynamicBuffer, options?: WritableOptions) {
+    super(options);
+
+    this.buffer = buf || new DynamicBuffer();
+    this.finished = new Promise((resolve, reject) => {
+      this.once('finish', () => resolve(this.buffer));
+      this.once('error', reject);
+    });
+    // Avoid unhandled rejection if the caller listens to the error event only.
+    this.finished.catch(() => {});
+  }
+
+  // eslint-disable-next-line no-underscore-dangle
+  _write(
+    chunk: any,
+    encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.appendChunk(this.toBuffer(chunk, encoding), callback);
+  }
+
+  // eslint-disable-next-line no-underscore-dangle
+  _writev(
+    chunks: { chunk: any, encoding: BufferEncoding }[],
+    callback: (error?: Error | null) => void,
+  ): void {
+    const data = Buffer.concat(chunks.map(({ chunk, encoding }) => this.toBuffer(chunk, encoding)));
+
+    this.appendChunk(data, callback);
+  }
+
+  /**
+   * Appends the data to the buffer, and passes an overflow error to the callback if the buffer
+   * doesn't have enough space.
+   *
+   * @param data The data to append.
+   * @param callback The callback of the write operation.
+   */
+  private appendChunk(data: Buffer, callback: (error?: Error | null) => void) {
+    const expectSize = this.buffer.length + data.length;
+    if (expectSize > this.buffer.maxSize) {
+      callback(new DynamicBufferOverflowError(expectSize, this.buffer.maxSize));
+      return;
+    }
+
+    try {
+      this.buffer.append(data);
+    } catch (err) {
+      callback(err as Error);
+      return;
+    }
+
+    callback();
+  }
+
+  /**
+   * Converts the written chunk to a Buffer.
+   *
+   * @param chunk The written chunk.
+   * @param encoding The character encoding of the chunk if it's a string.
+   * @returns The chunk as a Buffer.
+   */
+  // eslint-disable-next-line class-methods-use-this
+  private toBuffer(chunk: any, encoding: BufferEncoding): Buffer {
+    if (typeof chunk === 'string') {
+      return Buffer.from(chunk, encoding);
+    }
+    if (chunk instanceof Buffer) {
+      return chunk;
+    }
+
+    return Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+  }
+}
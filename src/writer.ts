@@ -0,0 +1,401 @@
+import { BufferEncoding, DynamicBuffer } from './dynamicBuffer';
+import { checkRange } from './utils';
+
+/**
+ * The `DynamicBufferWriter` class wraps a `DynamicBuffer` with an internal write position, and
+ * every write method advances the position by the number of bytes written. The buffer will be
+ * resized automatically if there is not enough space.
+ *
+ * The position is an absolute offset of the buffer, and it's not adjusted after bytes removed
+ * from the start of the buffer by `consume`, `shift`, or `remove`. Use `seek` to move the
+ * position after that, or the writer will overwrite the wrong bytes.
+ *
+ * ```js
+ * const buf = new DynamicBuffer();
+ * const writer = new DynamicBufferWriter(buf);
+ *
+ * writer.uint16BE(0).string('Hello');
+ * writer.seek(0).uint16BE(buf.length - 2);
+ * console.log(buf.toBuffer());
+ * // <Buffer 00 05 48 65 6c 6c 6f>
+ * ```
+ */
+export class DynamicBufferWriter {
+  /**
+   * The buffer to write to.
+   */
+  private buf: DynamicBuffer;
+
+  /**
+   * The current write position in the buffer.
+   */
+  private offset: number;
+
+  /**
+   * Create a writer to write data into the buffer.
+   *
+   * @param buf The buffer to write to.
+   * @param offset The initial write position, default `0`.
+   */
+  constructor(buf: DynamicBuffer, offset: number = 0) {
+    checkRange('offset', offset, 0, buf.length);
+
+    this.buf = buf;
+    this.offset = offset;
+  }
+
+  /**
+   * Writes a signed integer BigInt as big-endian at the current position, and advances the
+   * position by 8.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  bigInt64BE(value: bigint): this {
+    this.offset = this.buf.writeBigInt64BE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a signed integer BigInt as little-endian at the current position, and advances the
+   * position by 8.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  bigInt64LE(value: bigint): this {
+    this.offset = this.buf.writeBigInt64LE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes an unsigned integer BigInt as big-endian at the current position, and advances the
+   * position by 8.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  bigUInt64BE(value: bigint): this {
+    this.offset = this.buf.writeBigUInt64BE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes an unsigned integer BigInt as little-endian at the current position, and advances
+   * the position by 8.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  bigUInt64LE(value: bigint): this {
+    this.offset = this.buf.writeBigUInt64LE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes bytes at the current position, and advances the position by the number of bytes
+   * written. The data after the written bytes will be kept. The position will not be advanced
+   * past the bytes that are rejected or truncated by the maximum size of the buffer.
+   *
+   * @param data The bytes to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  bytes(data: DynamicBuffer | Buffer | Uint8Array): this {
+    let bytes: Buffer;
+    if (data instanceof DynamicBuffer) {
+      bytes = data.subarray();
+    } else if (data instanceof Buffer) {
+      bytes = data;
+    } else {
+      bytes = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+    }
+
+    let count = bytes.length;
+    if (this.offset + bytes.length < this.buf.length) {
+      this.buf.set(bytes, this.offset);
+    } else {
+      count = this.buf.write(bytes, this.offset);
+    }
+    this.offset += count;
+
+    return this;
+  }
+
+  /**
+   * Writes a 64-bit double as big-endian at the current position, and advances the position by
+   * 8.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  doubleBE(value: number): this {
+    this.offset = this.buf.writeDoubleBE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 64-bit double as little-endian at the current position, and advances the position
+   * by 8.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  doubleLE(value: number): this {
+    this.offset = this.buf.writeDoubleLE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 32-bit float as big-endian at the current position, and advances the position by
+   * 4.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  floatBE(value: number): this {
+    this.offset = this.buf.writeFloatBE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 32-bit float as little-endian at the current position, and advances the position
+   * by 4.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  floatLE(value: number): this {
+    this.offset = this.buf.writeFloatLE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 8-bits signed integer at the current position, and advances the position by 1.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  int8(value: number): this {
+    this.offset = this.buf.writeInt8(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 16-bits signed integer as big-endian at the current position, and advances the
+   * position by 2.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  int16BE(value: number): this {
+    this.offset = this.buf.writeInt16BE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 16-bits signed integer as little-endian at the current position, and advances the
+   * position by 2.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  int16LE(value: number): this {
+    this.offset = this.buf.writeInt16LE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 32-bits signed integer as big-endian at the current position, and advances the
+   * position by 4.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  int32BE(value: number): this {
+    this.offset = this.buf.writeInt32BE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 32-bits signed integer as little-endian at the current position, and advances the
+   * position by 4.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  int32LE(value: number): this {
+    this.offset = this.buf.writeInt32LE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes `byteLength` bytes at the current position as a big-endian signed integer, and
+   * advances the position by `byteLength`. Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The reference to this writer.
+   */
+  intBE(value: number, byteLength: number): this {
+    this.offset = this.buf.writeIntBE(value, this.offset, byteLength);
+
+    return this;
+  }
+
+  /**
+   * Writes `byteLength` bytes at the current position as a little-endian signed integer, and
+   * advances the position by `byteLength`. Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The reference to this writer.
+   */
+  intLE(value: number, byteLength: number): this {
+    this.offset = this.buf.writeIntLE(value, this.offset, byteLength);
+
+    return this;
+  }
+
+  /**
+   * Moves the write position to the specified offset.
+   *
+   * ```js
+   * writer.uint32LE(0).string('payload');
+   * writer.seek(0).uint32LE(7);
+   * ```
+   *
+   * @param offset The new write position, and it must between `0` and `buf.length`.
+   * @returns The reference to this writer.
+   */
+  seek(offset: number): this {
+    checkRange('offset', offset, 0, this.buf.length);
+
+    this.offset = offset;
+
+    return this;
+  }
+
+  /**
+   * Writes a string at the current position according to the character encoding, and advances
+   * the position by the number of bytes written.
+   *
+   * @param data String to write to buffer.
+   * @param encoding The character encoding to use, default from buffer encoding.
+   * @returns The reference to this writer.
+   */
+  string(data: string, encoding: BufferEncoding = this.buf.encoding): this {
+    return this.bytes(Buffer.from(data, encoding));
+  }
+
+  /**
+   * Returns the current write position.
+   */
+  tell(): number {
+    return this.offset;
+  }
+
+  /**
+   * Writes a 8-bits unsigned integer at the current position, and advances the position by 1.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  uint8(value: number): this {
+    this.offset = this.buf.writeUInt8(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 16-bits unsigned integer as big-endian at the current position, and advances the
+   * position by 2.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  uint16BE(value: number): this {
+    this.offset = this.buf.writeUInt16BE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 16-bits unsigned integer as little-endian at the current position, and advances
+   * the position by 2.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  uint16LE(value: number): this {
+    this.offset = this.buf.writeUInt16LE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 32-bits unsigned integer as big-endian at the current position, and advances the
+   * position by 4.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  uint32BE(value: number): this {
+    this.offset = this.buf.writeUInt32BE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes a 32-bits unsigned integer as little-endian at the current position, and advances
+   * the position by 4.
+   *
+   * @param value The number to be written to buffer.
+   * @returns The reference to this writer.
+   */
+  uint32LE(value: number): this {
+    this.offset = this.buf.writeUInt32LE(value, this.offset);
+
+    return this;
+  }
+
+  /**
+   * Writes `byteLength` bytes at the current position as a big-endian unsigned integer, and
+   * advances the position by `byteLength`. Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The reference to this writer.
+   */
+  uintBE(value: number, byteLength: number): this {
+    this.offset = this.buf.writeUIntBE(value, this.offset, byteLength);
+
+    return this;
+  }
+
+  /**
+   * Writes `byteLength` bytes at the current position as a little-endian unsigned integer, and
+   * advances the position by `byteLength`. Supports up to 48 bits of accuracy.
+   *
+   * @param value The number to be written to buffer.
+   * @param byteLength Number of bytes to write, and it must satisfy `0 < byteLength <= 6`.
+   * @returns The reference to this writer.
+   */
+  uintLE(value: number, byteLength: number): this {
+    this.offset = this.buf.writeUIntLE(value, this.offset, byteLength);
+
+    return this;
+  }
+}
@@ -39,6 +39,20 @@ describe('Filter method tests', () => {
   });
 });
 
+describe('Filter method with options tests', () => {
+  it('Test filter method returns DynamicBuffer', () => {
+    const buf = new DynamicBuffer('Hello', { encoding: 'latin1' });
+    const ret = buf.filter((v) => v !== 108, undefined, { asDynamicBuffer: true });
+
+    assert.equal(ret instanceof DynamicBuffer, true);
+    assert.equal(ret.toString(), 'Heo');
+    assert.equal(Reflect.get(ret, 'encoding'), 'latin1');
+
+    const empty = new DynamicBuffer().filter(() => true, undefined, { asDynamicBuffer: true });
+    assert.equal(empty.length, 0);
+  });
+});
+
 describe('Find method tests', () => {
   it('Test find method', () => {
     const buf = new DynamicBuffer('Hello');
@@ -112,6 +126,23 @@ describe('Map method tests', () => {
   });
 });
 
+describe('Map method with options tests', () => {
+  it('Test map method returns DynamicBuffer', () => {
+    const buf = new DynamicBuffer('Hello', { factor: 2 });
+    const ret = buf.map((v) => v + 1, undefined, { asDynamicBuffer: true });
+
+    assert.equal(ret instanceof DynamicBuffer, true);
+    assert.equal(ret.toString(), 'Ifmmp');
+    assert.equal(Reflect.get(ret, 'factor'), 2);
+
+    ret.append('!');
+    assert.equal(ret.toString(), 'Ifmmp!');
+    assert.equal(buf.toString(), 'Hello');
+
+    assert.deepEqual(buf.map((v) => v, undefined, {}), new Uint8Array([72, 101, 108, 108, 111]));
+  });
+});
+
 describe('Reduce method tests', () => {
   it('Reduce buffer', () => {
     const buf = new DynamicBuffer('abc');
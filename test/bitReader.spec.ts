@@ -0,0 +1,95 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferBitReader } from '../src';
+
+describe('Bit reader tests', () => {
+  it('Test reading bits in MSB order', () => {
+    const buf = new DynamicBuffer(Buffer.from([0x67, 0x42, 0xc0]));
+    const reader = new DynamicBufferBitReader(buf);
+
+    assert.equal(reader.readBits(1), 0);
+    assert.equal(reader.readBits(2), 3);
+    assert.equal(reader.readBits(5), 7);
+    assert.equal(reader.readBits(10), 0x10b);
+    assert.equal(reader.tell(), 18);
+    assert.equal(reader.remaining, 6);
+    assert.equal(reader.readBit(), 0);
+    assert.equal(reader.readBits(0), 0);
+
+    assert.throws(() => reader.readBits(6), RangeError);
+    assert.throws(() => reader.readBits(33), RangeError);
+    assert.equal(reader.tell(), 19);
+  });
+
+  it('Test reading bits in LSB order', () => {
+    const buf = new DynamicBuffer(Buffer.from([0x0d, 0xff]));
+    const reader = new DynamicBufferBitReader(buf, { order: 'lsb' });
+
+    assert.equal(reader.readBits(3), 5);
+    assert.equal(reader.readBits(5), 1);
+    assert.equal(reader.readBits(4), 0xf);
+
+    const crossing = new DynamicBufferBitReader(new DynamicBuffer(Buffer.from([0x80, 0x01])), {
+      order: 'lsb',
+    });
+    crossing.skip(7);
+    assert.equal(crossing.readBits(2), 3);
+
+    // @ts-ignore
+    assert.throws(() => new DynamicBufferBitReader(buf, { order: 'unknown' }));
+  });
+
+  it('Test reading big bits', () => {
+    const buf = new DynamicBuffer(Buffer.from([0xff, 0, 0, 0, 0, 0, 0, 0x01, 0x80]));
+    const reader = new DynamicBufferBitReader(buf);
+
+    assert.equal(reader.readBigBits(4), 0xfn);
+    assert.equal(reader.readBigBits(64), 0xf000000000000018n);
+    assert.equal(reader.readBigBits(0), 0n);
+    assert.throws(() => reader.readBigBits(5), RangeError);
+  });
+
+  it('Test aligning, seeking and skipping', () => {
+    const buf = new DynamicBuffer(Buffer.from([0xf0, 0x0f, 0xaa]));
+    const reader = new DynamicBufferBitReader(buf, { offset: 1 });
+
+    assert.equal(reader.tell(), 8);
+    assert.equal(reader.readBits(3), 0);
+    assert.equal(reader.align().tell(), 16);
+    assert.equal(reader.align().tell(), 16);
+    assert.equal(reader.readBits(8), 0xaa);
+
+    assert.equal(reader.seek(4).readBits(8), 0x00);
+    assert.equal(reader.skip(4).readBits(4), 0xa);
+    assert.throws(() => reader.skip(5), RangeError);
+    assert.throws(() => reader.seek(25), RangeError);
+    assert.throws(() => new DynamicBufferBitReader(buf, { offset: 4 }), RangeError);
+  });
+
+  it('Test reading Exp-Golomb codes', () => {
+    // 1 010 011 00100 00101 010 011 0
+    const buf = new DynamicBuffer(Buffer.from([0xa6, 0x42, 0xa6]));
+    const reader = new DynamicBufferBitReader(buf);
+
+    assert.equal(reader.readExpGolomb(), 0);
+    assert.equal(reader.readExpGolomb(), 1);
+    assert.equal(reader.readExpGolomb(), 2);
+    assert.equal(reader.readExpGolomb(), 3);
+    assert.equal(reader.readExpGolomb(), 4);
+    assert.equal(reader.readSignedExpGolomb(), 1);
+    assert.equal(reader.readSignedExpGolomb(), -1);
+
+    const invalid = new DynamicBufferBitReader(new DynamicBuffer(Buffer.alloc(8)));
+    assert.throws(() => invalid.readExpGolomb(), RangeError);
+    assert.equal(invalid.tell(), 0);
+
+    // 0 000001 0 (truncated)
+    const truncated = new DynamicBufferBitReader(new DynamicBuffer(Buffer.from([0x02])));
+    truncated.readBit();
+    assert.throws(() => truncated.readExpGolomb(), RangeError);
+    assert.equal(truncated.tell(), 1);
+    assert.throws(() => truncated.readSignedExpGolomb(), RangeError);
+    assert.equal(truncated.tell(), 1);
+  });
+});
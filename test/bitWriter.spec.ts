@@ -0,0 +1,111 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import {
+  DynamicBuffer,
+  DynamicBufferBitReader,
+  DynamicBufferBitWriter,
+  DynamicBufferOverflowError,
+} from '../src';
+
+describe('Bit writer tests', () => {
+  it('Test writing bits in MSB order', () => {
+    const buf = new DynamicBuffer({ size: 0 });
+    const writer = new DynamicBufferBitWriter(buf);
+
+    writer.writeBits(0, 1).writeBits(3, 2).writeBits(7, 5);
+    assert.equal(buf.length, 1);
+
+    writer.writeBits(0x10b, 10).writeBit(1);
+    assert.equal(writer.tell(), 19);
+    assert.equal(buf.toString('hex'), '6742e0');
+
+    assert.throws(() => writer.writeBits(4, 2), RangeError);
+    assert.throws(() => writer.writeBits(-1, 2), RangeError);
+    assert.equal(writer.tell(), 19);
+  });
+
+  it('Test writing bits in LSB order', () => {
+    const buf = new DynamicBuffer();
+    const writer = new DynamicBufferBitWriter(buf, { order: 'lsb' });
+
+    writer.writeBits(5, 3).writeBits(1, 5).writeBits(0xf, 4);
+    assert.equal(buf.toString('hex'), '0d0f');
+
+    const reader = new DynamicBufferBitReader(buf, { order: 'lsb' });
+    assert.equal(reader.readBits(3), 5);
+    assert.equal(reader.readBits(5), 1);
+    assert.equal(reader.readBits(4), 0xf);
+  });
+
+  it('Test writing big bits', () => {
+    const buf = new DynamicBuffer();
+    const writer = new DynamicBufferBitWriter(buf);
+
+    writer.writeBits(1, 3).writeBits(2n ** 40n + 3n, 41).writeBits(2 ** 40, 45);
+
+    const reader = new DynamicBufferBitReader(buf);
+    assert.equal(reader.readBits(3), 1);
+    assert.equal(reader.readBigBits(41), 2n ** 40n + 3n);
+    assert.equal(reader.readBigBits(45), 2n ** 40n);
+    assert.throws(() => writer.writeBits(2n ** 8n, 8), RangeError);
+  });
+
+  it('Test overwriting bits and aligning', () => {
+    const buf = new DynamicBuffer(Buffer.from([0xff, 0xff]));
+    const writer = new DynamicBufferBitWriter(buf);
+
+    writer.seek(4).writeBits(0, 6);
+    assert.equal(buf.toString('hex'), 'f03f');
+
+    writer.align();
+    assert.equal(writer.tell(), 16);
+    assert.equal(buf.toString('hex'), 'f000');
+    writer.writeBit(1).align();
+    assert.equal(buf.toString('hex'), 'f00080');
+
+    assert.throws(() => writer.seek(25), RangeError);
+    assert.throws(() => new DynamicBufferBitWriter(buf, { offset: 4 }), RangeError);
+  });
+
+  it('Test writing Exp-Golomb codes', () => {
+    const buf = new DynamicBuffer();
+    const writer = new DynamicBufferBitWriter(buf);
+
+    [0, 1, 2, 3, 4].forEach((value) => writer.writeExpGolomb(value));
+    writer.writeSignedExpGolomb(1).writeSignedExpGolomb(-1).align();
+    assert.equal(buf.toString('hex'), 'a642a6');
+
+    writer.writeExpGolomb(2 ** 33 - 2).writeSignedExpGolomb(-(2 ** 32 - 1));
+    const reader = new DynamicBufferBitReader(buf, { offset: 3 });
+    assert.equal(reader.readExpGolomb(), 2 ** 33 - 2);
+    assert.equal(reader.readSignedExpGolomb(), -(2 ** 32 - 1));
+
+    assert.throws(() => writer.writeExpGolomb(-1), RangeError);
+    assert.throws(() => writer.writeExpGolomb(2 ** 33 - 1), RangeError);
+    assert.throws(() => writer.writeSignedExpGolomb(2 ** 32), RangeError);
+  });
+
+  it('Test writing with max size', () => {
+    const buf = new DynamicBuffer({ maxSize: 1, overflow: 'reject' });
+    const writer = new DynamicBufferBitWriter(buf);
+
+    writer.writeBits(0xff, 8);
+    assert.throws(() => writer.writeBit(1), DynamicBufferOverflowError);
+    assert.equal(buf.length, 1);
+  });
+
+  it('Test writing bits across the max size', () => {
+    const buf = new DynamicBuffer({ maxSize: 1 });
+    const writer = new DynamicBufferBitWriter(buf);
+
+    assert.throws(() => writer.writeBits(0x1ff, 12), DynamicBufferOverflowError);
+    assert.equal(writer.tell(), 0);
+    assert.equal(buf.length, 0);
+
+    writer.writeBits(0x5, 4);
+    assert.throws(() => writer.writeExpGolomb(7), DynamicBufferOverflowError);
+    assert.equal(writer.tell(), 4);
+    assert.deepEqual(buf.toJSON().data, [0x50]);
+  });
+});
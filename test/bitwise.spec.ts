@@ -0,0 +1,92 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferOverflowError } from '../src';
+
+describe('Bit manipulation tests', () => {
+  it('Test getBit', () => {
+    const buf = new DynamicBuffer(Buffer.from([0x80, 0x01]));
+
+    assert.equal(buf.getBit(0), 1);
+    assert.equal(buf.getBit(1), 0);
+    assert.equal(buf.getBit(15), 1);
+    assert.equal(buf.getBit(16), 0);
+    assert.equal(buf.length, 2);
+    assert.throws(() => buf.getBit(-1), RangeError);
+  });
+
+  it('Test setBit, clearBit and toggleBit', () => {
+    const buf = new DynamicBuffer({ fill: 0xff });
+
+    assert.equal(buf.setBit(9), buf);
+    assert.equal(buf.toString('hex'), '0040');
+
+    buf.setBit(0, 1).setBit(9, false).setBit(15, true);
+    assert.equal(buf.toString('hex'), '8001');
+
+    buf.clearBit(0).clearBit(20);
+    assert.equal(buf.toString('hex'), '000100');
+
+    buf.toggleBit(0).toggleBit(15);
+    assert.equal(buf.toString('hex'), '800000');
+    assert.equal(buf.getBit(0), 1);
+
+    assert.throws(() => buf.setBit(-1), RangeError);
+    assert.throws(() => new DynamicBuffer({ maxSize: 1 }).setBit(8), DynamicBufferOverflowError);
+  });
+
+  it('Test popcount', () => {
+    const buf = new DynamicBuffer(Buffer.from([0xff, 0x0f, 0x01]));
+
+    assert.equal(buf.popcount(), 13);
+    assert.equal(buf.popcount(8), 5);
+    assert.equal(buf.popcount(0, 8), 8);
+    assert.equal(buf.popcount(4, 12), 4);
+    assert.equal(buf.popcount(1, 3), 2);
+    assert.equal(buf.popcount(13, 100), 4);
+    assert.equal(buf.popcount(23, 24), 1);
+    assert.equal(buf.popcount(16, 8), 0);
+    assert.equal(new DynamicBuffer().popcount(), 0);
+    assert.throws(() => buf.popcount(-1), RangeError);
+  });
+
+  it('Test findFirstSet and findFirstClear', () => {
+    const buf = new DynamicBuffer(Buffer.from([0x00, 0x10, 0xff]));
+
+    assert.equal(buf.findFirstSet(), 11);
+    assert.equal(buf.findFirstSet(12), 16);
+    assert.equal(buf.findFirstSet(24), -1);
+    assert.equal(buf.findFirstClear(), 0);
+    assert.equal(buf.findFirstClear(11), 12);
+    assert.equal(buf.findFirstClear(16), -1);
+    assert.equal(new DynamicBuffer().findFirstSet(), -1);
+    assert.throws(() => buf.findFirstSet(-1), RangeError);
+  });
+
+  it('Test and, or and xor', () => {
+    const buf = new DynamicBuffer(Buffer.from([0xf0, 0xff]));
+
+    assert.equal(buf.and(Buffer.from([0x3c])), buf);
+    assert.equal(buf.toString('hex'), '3000');
+
+    buf.or(new Uint8Array([0x0f, 0x01, 0x80]));
+    assert.equal(buf.toString('hex'), '3f0180');
+
+    buf.xor(new DynamicBuffer(Buffer.from([0xff, 0x01])));
+    assert.equal(buf.toString('hex'), 'c00080');
+
+    buf.and(Buffer.from([0xff, 0xff, 0xff, 0xff]));
+    assert.equal(buf.toString('hex'), 'c0008000');
+
+    buf.xor(buf);
+    assert.equal(buf.toString('hex'), '00000000');
+  });
+
+  it('Test not', () => {
+    const buf = new DynamicBuffer(Buffer.from([0x0f, 0xa5]));
+
+    assert.equal(buf.not(), buf);
+    assert.equal(buf.toString('hex'), 'f05a');
+    assert.equal(new DynamicBuffer().not().length, 0);
+  });
+});
@@ -2,7 +2,7 @@ import assert from 'assert';
 import { constants } from 'buffer';
 import { describe, it } from 'mocha';
 
-import { DynamicBuffer } from '../src';
+import { DynamicBuffer, DynamicBufferOverflowError } from '../src';
 
 describe('Initialization tests', () => {
   it('Test initializing with default size', () => {
@@ -123,6 +123,385 @@ describe('Resize tests', () => {
   });
 });
 
+describe('Growth strategy tests', () => {
+  it('Test initializing with invalid growth strategy', () => {
+    // @ts-ignore
+    assert.throws(() => new DynamicBuffer({ growth: 'unknown' }));
+    assert.throws(() => new DynamicBuffer({ growth: 'linear', growthStep: -1 }));
+  });
+
+  it('Test factor growth strategy', () => {
+    const buf = new DynamicBuffer({ size: 10, growth: 'factor', factor: 1 });
+
+    buf.append('Hello world');
+
+    assert.equal(buf.capacity, 20);
+  });
+
+  it('Test power-of-two growth strategy', () => {
+    const buf = new DynamicBuffer({ size: 10, growth: 'power-of-two' });
+
+    buf.append('Hello world');
+    assert.equal(buf.capacity, 16);
+
+    buf.append('Hello world');
+    assert.equal(buf.capacity, 32);
+  });
+
+  it('Test linear growth strategy', () => {
+    const buf = new DynamicBuffer({ size: 10, growth: 'linear', growthStep: 8 });
+
+    buf.append('Hello world');
+    assert.equal(buf.capacity, 18);
+
+    buf.append('Hello world, Hello world');
+    assert.equal(buf.capacity, 42);
+
+    const defaultStep = new DynamicBuffer({ size: 10, growth: 'linear' });
+    defaultStep.append('Hello world');
+    assert.equal(defaultStep.capacity, 1034);
+  });
+
+  it('Test page growth strategy', () => {
+    const buf = new DynamicBuffer({ size: 10, growth: 'page' });
+
+    buf.append('Hello world');
+    assert.equal(buf.capacity, 4096);
+
+    buf.append(Buffer.alloc(4096));
+    assert.equal(buf.capacity, 8192);
+  });
+
+  it('Test custom growth function', () => {
+    const calls: number[][] = [];
+    const buf = new DynamicBuffer({
+      size: 10,
+      growth: (currentSize: number, requiredSize: number) => {
+        calls.push([currentSize, requiredSize]);
+        return requiredSize + 1;
+      },
+    });
+
+    buf.append('Hello world');
+
+    assert.deepEqual(calls, [[10, 11]]);
+    assert.equal(buf.capacity, 12);
+  });
+
+  it('Test custom growth function with invalid size', () => {
+    const buf = new DynamicBuffer({ size: 10, growth: (currentSize: number) => currentSize });
+
+    assert.throws(() => buf.append('Hello world'));
+    assert.equal(buf.capacity, 10);
+  });
+
+  it('Test growth strategy with max size', () => {
+    const buf = new DynamicBuffer({ size: 10, growth: 'page', maxSize: 100 });
+
+    buf.append('Hello world');
+
+    assert.equal(buf.capacity, 100);
+  });
+});
+
+describe('Capacity tests', () => {
+  it('Test capacity', () => {
+    const buf = new DynamicBuffer({ size: 32 });
+
+    assert.equal(buf.capacity, 32);
+    buf.append('Hello');
+    assert.equal(buf.capacity, 32);
+    assert.equal(new DynamicBuffer({ size: 0 }).capacity, 0);
+  });
+
+  it('Test reserve', () => {
+    const buf = new DynamicBuffer('Hello', { size: 5 });
+
+    assert.equal(buf.reserve(1024), buf);
+    assert.equal(buf.capacity, 1024);
+    assert.equal(buf.length, 5);
+    assert.equal(buf.toString(), 'Hello');
+
+    buf.reserve(16);
+    assert.equal(buf.capacity, 1024);
+
+    assert.throws(() => buf.reserve(-1), RangeError);
+    assert.throws(() => buf.reserve(constants.MAX_LENGTH + 1), RangeError);
+  });
+
+  it('Test shrinkToFit', () => {
+    const buf = new DynamicBuffer('Hello', { size: 64 });
+
+    assert.equal(buf.shrinkToFit(), buf);
+    assert.equal(buf.capacity, 5);
+    assert.equal(buf.toString(), 'Hello');
+
+    buf.append(' world');
+    assert.equal(buf.toString(), 'Hello world');
+
+    buf.clear().shrinkToFit();
+    assert.equal(buf.capacity, 0);
+    assert.equal(Reflect.get(buf, 'buffer'), undefined);
+
+    buf.append('Hi');
+    assert.equal(buf.toString(), 'Hi');
+  });
+
+  it('Test truncate', () => {
+    const buf = new DynamicBuffer('Hello world');
+    const { capacity } = buf;
+
+    assert.equal(buf.truncate(5), buf);
+    assert.equal(buf.toString(), 'Hello');
+    assert.equal(buf.capacity, capacity);
+
+    buf.truncate(10);
+    assert.equal(buf.toString(), 'Hello');
+
+    buf.truncate();
+    assert.equal(buf.length, 0);
+
+    assert.throws(() => buf.truncate(-1), RangeError);
+  });
+
+  it('Test setLength', () => {
+    const buf = new DynamicBuffer('Hello world', { size: 11 });
+
+    buf.truncate(5);
+    assert.equal(buf.setLength(7), buf);
+    assert.deepEqual(buf.toJSON().data, [72, 101, 108, 108, 111, 0, 0]);
+
+    buf.setLength(20);
+    assert.equal(buf.length, 20);
+    assert.equal(buf.capacity >= 20, true);
+    assert.equal(buf.readUInt8(19), 0);
+
+    buf.setLength(2);
+    assert.equal(buf.toString(), 'He');
+
+    assert.throws(() => buf.setLength(-1), RangeError);
+  });
+
+  it('Test setLength with fill value', () => {
+    const buf = new DynamicBuffer('AB', { fill: 'x' });
+
+    buf.setLength(4);
+
+    assert.equal(buf.toString(), 'ABxx');
+  });
+
+  it('Test clear', () => {
+    const buf = new DynamicBuffer('Hello world');
+    const { capacity } = buf;
+
+    assert.equal(buf.clear(), buf);
+    assert.equal(buf.length, 0);
+    assert.equal(buf.capacity, capacity);
+
+    buf.append('Hello');
+    buf.clear(true);
+    assert.equal(buf.length, 0);
+    assert.equal(buf.capacity, 0);
+    assert.equal(buf.toString(), '');
+
+    buf.append('Hello');
+    assert.equal(buf.toString(), 'Hello');
+  });
+
+  it('Test consume', () => {
+    const buf = new DynamicBuffer('Hello world', { size: 32 });
+
+    assert.equal(buf.consume(6), 6);
+    assert.equal(buf.length, 5);
+    assert.equal(buf.capacity, 26);
+    assert.equal(buf.toString(), 'world');
+    assert.equal(buf[0], 0x77);
+    assert.equal(buf.readUInt8(4), 0x64);
+    assert.equal(buf.indexOf('d'), 4);
+
+    buf.append('!');
+    assert.equal(buf.toString(), 'world!');
+
+    assert.equal(buf.consume(100), 6);
+    assert.equal(buf.length, 0);
+    assert.equal(buf.capacity, 32);
+    assert.equal(buf.consume(1), 0);
+
+    assert.throws(() => buf.consume(-1), RangeError);
+  });
+
+  it('Test consume compacts automatically', () => {
+    const buf = new DynamicBuffer('Hello world', { size: 16 });
+
+    buf.consume(6);
+    assert.equal(buf.capacity, 10);
+    buf.consume(3);
+    assert.equal(buf.capacity, 16);
+    assert.equal(buf.toString(), 'ld');
+  });
+
+  it('Test writing after consume reuses the space', () => {
+    const buf = new DynamicBuffer('Hello world', { size: 16 });
+
+    buf.consume(6);
+    buf.append(' and the next world');
+    assert.equal(buf.toString(), 'world and the next world');
+
+    const other = new DynamicBuffer('Hello world', { size: 16 });
+    other.consume(6);
+    other.append(' hello!!!');
+    assert.equal(other.capacity, 16);
+    assert.equal(other.toString(), 'world hello!!!');
+  });
+
+  it('Test shift', () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    const data = buf.shift(6);
+    assert.equal(data.toString(), 'Hello ');
+    assert.equal(buf.toString(), 'world');
+
+    buf[0] = 0x57;
+    assert.equal(data.toString(), 'Hello ');
+
+    assert.equal(buf.shift(10).toString(), 'World');
+    assert.equal(buf.shift(1).length, 0);
+    assert.throws(() => buf.shift(-1), RangeError);
+  });
+
+  it('Test compact', () => {
+    const buf = new DynamicBuffer('Hello world', { size: 32 });
+
+    assert.equal(buf.compact(), buf);
+    buf.consume(6);
+    assert.equal(buf.capacity, 26);
+
+    buf.compact();
+    assert.equal(buf.capacity, 32);
+    assert.equal(buf.toString(), 'world');
+
+    buf.consume(1);
+    buf.shrinkToFit();
+    assert.equal(buf.capacity, 4);
+    assert.equal(buf.toString(), 'orld');
+
+    assert.equal(new DynamicBuffer({ size: 0 }).compact().length, 0);
+  });
+
+  it('Test compact keeps the data of subarray views', () => {
+    const buf = new DynamicBuffer('AAAABBBBBBBB', { size: 16 });
+    const view = buf.subarray(4);
+
+    buf.consume(4);
+    buf.compact();
+    buf.fill(0x43);
+    assert.equal(view.toString(), 'BBBBBBBB');
+
+    buf.consume(buf.length);
+    buf.append('DDDDDDDD');
+    assert.equal(view.toString(), 'BBBBBBBB');
+    assert.equal(buf.toString(), 'DDDDDDDD');
+  });
+});
+
+describe('Max size tests', () => {
+  it('Test initializing with invalid max size', () => {
+    assert.throws(() => new DynamicBuffer({ maxSize: 0 }));
+    assert.throws(() => new DynamicBuffer({ maxSize: constants.MAX_LENGTH + 1 }));
+    assert.throws(() => new DynamicBuffer('Hello', { maxSize: 4 }), DynamicBufferOverflowError);
+    // @ts-ignore
+    assert.throws(() => new DynamicBuffer({ overflow: 'unknown' }));
+  });
+
+  it('Test initial size is limited by max size', () => {
+    const buf = new DynamicBuffer({ size: 32, maxSize: 8 });
+
+    assert.equal(buf.capacity, 8);
+  });
+
+  it('Test growing is limited by max size', () => {
+    const buf = new DynamicBuffer({ size: 4, maxSize: 10 });
+
+    buf.append('Hello');
+    assert.equal(buf.capacity, 7);
+    buf.append('world');
+    assert.equal(buf.capacity, 10);
+    assert.equal(buf.toString(), 'Helloworld');
+  });
+
+  it('Test throwing overflow error', () => {
+    const buf = new DynamicBuffer({ maxSize: 8 });
+
+    buf.append('Hello');
+
+    assert.throws(() => buf.append(' world'), (err: any) => {
+      assert.equal(err instanceof DynamicBufferOverflowError, true);
+      assert.equal(err instanceof RangeError, true);
+      assert.equal(err.requestedSize, 11);
+      assert.equal(err.maxSize, 8);
+      return true;
+    });
+    assert.throws(() => buf.prepend('Hello'), DynamicBufferOverflowError);
+    assert.throws(() => buf.insert(0, 'Hello'), DynamicBufferOverflowError);
+    assert.throws(() => buf.splice(0, 0, 1, 2, 3, 4), DynamicBufferOverflowError);
+    assert.throws(() => buf.writeUInt32BE(1, 5), DynamicBufferOverflowError);
+    assert.throws(() => buf.reserve(9), DynamicBufferOverflowError);
+    assert.throws(() => buf.setLength(9), DynamicBufferOverflowError);
+    assert.throws(() => {
+      buf[8] = 1;
+    }, DynamicBufferOverflowError);
+
+    assert.equal(buf.toString(), 'Hello');
+  });
+
+  it('Test rejecting overflow writes', () => {
+    const buf = new DynamicBuffer({ maxSize: 8, overflow: 'reject' });
+
+    assert.equal(buf.append('Hello'), 5);
+    assert.equal(buf.append(' world'), 0);
+    assert.equal(buf.prepend('Hello'), 0);
+    assert.equal(buf.insert(0, 'Hello'), 0);
+    assert.equal(buf.splice(0, 1, 1, 2, 3, 4, 5).length, 0);
+    assert.equal(buf.write('Hello', 4), 0);
+    assert.equal(buf.writeUInt32BE(1, 5), 5);
+    assert.equal(buf.appendUInt32LE(1), 0);
+    buf[8] = 1;
+
+    assert.equal(buf.toString(), 'Hello');
+
+    assert.equal(buf.append('!!!'), 3);
+    assert.equal(buf.toString(), 'Hello!!!');
+  });
+
+  it('Test truncating overflow writes', () => {
+    const buf = new DynamicBuffer({ maxSize: 8, overflow: 'truncate' });
+
+    assert.equal(buf.append('Hello'), 5);
+    assert.equal(buf.append(' world'), 3);
+    assert.equal(buf.toString(), 'Hello wo');
+    assert.equal(buf.append('!'), 0);
+    assert.equal(buf.writeUInt16BE(1, 7), 7);
+    assert.equal(buf.appendUInt8(1), 0);
+    assert.equal(buf.appendBigUInt64LE(1n), 0);
+    assert.equal(buf.length, 8);
+
+    buf.truncate(5);
+    assert.equal(buf.prepend('>>>>'), 3);
+    assert.equal(buf.toString(), '>>>Hello');
+
+    buf.truncate(6);
+    assert.equal(buf.insert(3, '----'), 2);
+    assert.equal(buf.toString(), '>>>--Hel');
+
+    buf.truncate(6);
+    assert.equal(buf.splice(0, 1, 0x3c, 0x3c, 0x3c, 0x3c).toString(), '>');
+    assert.equal(buf.toString(), '<<<>>--H');
+
+    assert.equal(buf.write('world', 4), 4);
+    assert.equal(buf.toString(), '<<<>worl');
+  });
+});
+
 describe('Subarray test', () => {
   it('Test subarray', () => {
     const buf = new DynamicBuffer('ABCDEF');
@@ -118,3 +118,48 @@ describe('Copy to another storage', () => {
     assert.equal(buf2.toString(), '.....');
   });
 });
+
+describe('Clone tests', () => {
+  it('Test clone()', () => {
+    const buf = new DynamicBuffer('Hello', { size: 32, fill: 'x', factor: 2 });
+    const copy = buf.clone();
+
+    assert.equal(copy.toString(), 'Hello');
+    assert.equal(copy.capacity, 32);
+    assert.equal(Reflect.get(copy, 'factor'), 2);
+    assert.equal(Reflect.get(copy, 'fillVal'), 'x');
+
+    copy.append(' world');
+    copy[0] = 74;
+    assert.equal(copy.toString(), 'Jello world');
+    assert.equal(buf.toString(), 'Hello');
+  });
+
+  it('Test clone() with empty buffer', () => {
+    const copy = new DynamicBuffer({ size: 0 }).clone();
+
+    assert.equal(copy.length, 0);
+    assert.equal(copy.capacity, 0);
+  });
+});
+
+describe('Slice tests', () => {
+  it('Test slice()', () => {
+    const buf = new DynamicBuffer('Hello world', { encoding: 'latin1', maxSize: 32 });
+    const slice = buf.slice(0, 5);
+
+    assert.equal(slice instanceof DynamicBuffer, true);
+    assert.equal(slice.toString(), 'Hello');
+    assert.equal(Reflect.get(slice, 'encoding'), 'latin1');
+    assert.equal(Reflect.get(slice, 'maxSize'), 32);
+
+    slice[0] = 74;
+    slice.append('!');
+    assert.equal(slice.toString(), 'Jello!');
+    assert.equal(buf.toString(), 'Hello world');
+
+    assert.equal(buf.slice().toString(), 'Hello world');
+    assert.equal(buf.slice(6).toString(), 'world');
+    assert.equal(buf.slice(20).length, 0);
+  });
+});
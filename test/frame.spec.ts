@@ -0,0 +1,142 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import {
+  DynamicBuffer,
+  DynamicBufferFrameSizeError,
+  DynamicBufferOverflowError,
+} from '../src';
+
+describe('Frame tests', () => {
+  it('Test writeFrame', () => {
+    const buf = new DynamicBuffer();
+
+    assert.equal(buf.writeFrame('Hello'), 9);
+    assert.deepEqual(buf.toBuffer(), Buffer.from('0000000548656c6c6f', 'hex'));
+
+    buf.clear();
+    buf.writeFrame(Buffer.from('Hi'), { prefix: 'u8' });
+    buf.writeFrame(new Uint8Array([1]), { prefix: 'u16be' });
+    buf.writeFrame(new DynamicBuffer('A'), { prefix: 'u16le' });
+    buf.writeFrame('', { prefix: 'u32le' });
+    buf.writeFrame(Buffer.alloc(300), { prefix: 'varint' });
+    assert.deepEqual(
+      buf.subarray(0, 17),
+      Buffer.from('02486900010101004100000000ac020000', 'hex'),
+    );
+    assert.equal(buf.length, 15 + 300);
+  });
+
+  it('Test tryReadFrame', () => {
+    const buf = new DynamicBuffer();
+    buf.writeFrame('Hello', { prefix: 'u16be' });
+    buf.append(Buffer.from([0x00, 0x05, 0x77]));
+
+    assert.equal(buf.tryReadFrame({ prefix: 'u16be' })?.toString(), 'Hello');
+    assert.equal(buf.tryReadFrame({ prefix: 'u16be' }), undefined);
+    assert.equal(buf.length, 3);
+
+    buf.append('orld');
+    assert.equal(buf.tryReadFrame({ prefix: 'u16be' })?.toString(), 'world');
+    assert.equal(buf.length, 0);
+    assert.equal(buf.tryReadFrame({ prefix: 'u16be' }), undefined);
+
+    buf.append(Buffer.from([0x00]));
+    assert.equal(buf.tryReadFrame({ prefix: 'u16be' }), undefined);
+  });
+
+  it('Test reading frames with all prefixes', () => {
+    (['u8', 'u16be', 'u16le', 'u32be', 'u32le', 'varint'] as const).forEach((prefix) => {
+      const buf = new DynamicBuffer();
+      const payload = Buffer.alloc(200, 1);
+
+      buf.writeFrame(payload, { prefix });
+      buf.writeFrame('end', { prefix });
+
+      assert.deepEqual(buf.tryReadFrame({ prefix }), payload);
+      assert.equal(buf.tryReadFrame({ prefix })?.toString(), 'end');
+    });
+  });
+
+  it('Test reading varint frame with partial prefix', () => {
+    const buf = new DynamicBuffer();
+    buf.writeFrame(Buffer.alloc(300), { prefix: 'varint' });
+    const data = buf.toBuffer();
+
+    buf.clear();
+    buf.append(data.subarray(0, 1));
+    assert.equal(buf.tryReadFrame({ prefix: 'varint' }), undefined);
+    buf.append(data.subarray(1));
+    assert.equal(buf.tryReadFrame({ prefix: 'varint' })?.length, 300);
+  });
+
+  it('Test reading varint frame with overlong prefix', () => {
+    const buf = new DynamicBuffer(Buffer.alloc(7, 0x80));
+    assert.equal(buf.tryReadFrame({ prefix: 'varint' }), undefined);
+
+    buf.append(Buffer.from([0x80]));
+    assert.throws(() => buf.tryReadFrame({ prefix: 'varint' }), /longer than 8 bytes/);
+    assert.throws(() => Array.from(buf.frames({ prefix: 'varint' })), RangeError);
+    assert.equal(buf.length, 8);
+  });
+
+  it('Test frames', () => {
+    const buf = new DynamicBuffer();
+    buf.writeFrame('one', { prefix: 'u8' });
+    buf.writeFrame('two', { prefix: 'u8' });
+    buf.append(Buffer.from([0x05, 0x74]));
+
+    const frames = Array.from(buf.frames({ prefix: 'u8' })).map((frame) => frame.toString());
+    assert.deepEqual(frames, ['one', 'two']);
+    assert.deepEqual(buf.toBuffer(), Buffer.from([0x05, 0x74]));
+
+    const iterator = buf.frames({ prefix: 'u8' });
+    assert.equal(iterator.next().done, true);
+    buf.append('ouch');
+    assert.equal(iterator.next().value?.toString(), 'touch');
+    assert.equal(buf.length, 0);
+    assert.throws(() => buf.frames({ prefix: 'u64' as 'u8' }));
+  });
+
+  it('Test max frame size', () => {
+    const buf = new DynamicBuffer();
+    buf.writeUInt32BE(1024 * 1024);
+
+    assert.throws(
+      () => buf.tryReadFrame({ maxFrameSize: 1024 }),
+      (err: DynamicBufferFrameSizeError) => {
+        assert.ok(err instanceof DynamicBufferFrameSizeError);
+        assert.equal(err.frameSize, 1024 * 1024);
+        assert.equal(err.maxFrameSize, 1024);
+        return true;
+      },
+    );
+    assert.equal(buf.length, 4);
+
+    assert.throws(() => buf.writeFrame('Hello', { maxFrameSize: 4 }), DynamicBufferFrameSizeError);
+    assert.throws(
+      () => buf.writeFrame(Buffer.alloc(256), { prefix: 'u8' }),
+      DynamicBufferFrameSizeError,
+    );
+    assert.equal(buf.length, 4);
+  });
+
+  it('Test frame with max buffer size', () => {
+    const buf = new DynamicBuffer({ maxSize: 8 });
+    assert.throws(() => buf.writeFrame('Hello'), DynamicBufferOverflowError);
+    assert.equal(buf.length, 0);
+
+    const rejectBuf = new DynamicBuffer({ maxSize: 8, overflow: 'truncate' });
+    assert.equal(rejectBuf.writeFrame('Hello'), 0);
+    assert.equal(rejectBuf.writeFrame('Hey'), 7);
+    assert.equal(rejectBuf.length, 7);
+  });
+
+  it('Test invalid frame options', () => {
+    const buf = new DynamicBuffer();
+
+    assert.throws(() => buf.writeFrame('a', { prefix: 'u64' as any }), Error);
+    assert.throws(() => buf.tryReadFrame({ prefix: 'toString' as any }), Error);
+    assert.throws(() => buf.tryReadFrame({ maxFrameSize: -1 }), RangeError);
+  });
+});
@@ -1,7 +1,7 @@
 import assert from 'assert';
 import { describe, it } from 'mocha';
 
-import { DynamicBuffer } from '../src';
+import { DynamicBuffer, DynamicBufferConcurrentModificationError } from '../src';
 
 describe('Iteration tests', () => {
   it('Test entries() before writing data', () => {
@@ -73,4 +73,103 @@ describe('Iteration tests', () => {
 
     assert.equal(buf.length, index);
   });
+
+  it('Test chunks()', () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    const chunks = Array.from(buf.chunks(4)).map((chunk) => chunk.toString());
+    assert.deepEqual(chunks, ['Hell', 'o wo', 'rld']);
+    assert.deepEqual(Array.from(buf.chunks(11)).map((chunk) => chunk.toString()), ['Hello world']);
+    assert.equal(Array.from(new DynamicBuffer().chunks(4)).length, 0);
+    assert.throws(() => buf.chunks(0), RangeError);
+  });
+
+  it('Test modifying buffer during iteration', () => {
+    const buf = new DynamicBuffer('Hello');
+
+    assert.throws(() => {
+      for (const _ of buf.values()) {
+        buf.prepend('!');
+      }
+    }, DynamicBufferConcurrentModificationError);
+
+    assert.throws(() => {
+      for (const _ of buf.entries()) {
+        buf.write('Hi', 0);
+      }
+    }, DynamicBufferConcurrentModificationError);
+
+    assert.throws(() => {
+      for (const _ of buf.chunks(1)) {
+        buf.reserve(64);
+      }
+    }, DynamicBufferConcurrentModificationError);
+
+    const keys = buf.keys();
+    keys.next();
+    buf.append('!');
+    assert.throws(() => keys.next(), DynamicBufferConcurrentModificationError);
+  });
+
+  it('Test overwriting bytes during iteration', () => {
+    const buf = new DynamicBuffer('Hello');
+
+    let index = 0;
+    for (const _ of buf.values()) {
+      buf[index] = 0x41;
+      index += 1;
+    }
+    assert.equal(buf.toString(), 'AAAAA');
+  });
+
+  it('Test iterating snapshot', () => {
+    const buf = new DynamicBuffer('Hello');
+
+    const values: number[] = [];
+    for (const value of buf.values({ snapshot: true })) {
+      values.push(value);
+      buf.prepend('!');
+    }
+    assert.deepEqual(values, [72, 101, 108, 108, 111]);
+    assert.equal(buf.toString(), '!!!!!Hello');
+
+    const chunks: string[] = [];
+    for (const chunk of buf.chunks(5, { snapshot: true })) {
+      chunks.push(chunk.toString());
+      buf.truncate();
+    }
+    assert.deepEqual(chunks, ['!!!!!', 'Hello']);
+    assert.equal(Array.from(buf.keys({ snapshot: true })).length, 0);
+  });
+
+  // TypeScript may infer the chunk type from Symbol.iterator if the sync iteration of the same
+  // type is checked first, so keep this test before the spread one.
+  it('Test async iterating buffer', async () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of buf) {
+      chunks.push(chunk);
+    }
+    assert.equal(Buffer.concat(chunks).toString(), 'Hello world');
+
+    const stream = buf.createReadStream({ live: true });
+    setImmediate(() => {
+      buf.append('!');
+      stream.end();
+    });
+
+    const liveChunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      liveChunks.push(chunk);
+    }
+    assert.equal(Buffer.concat(liveChunks).toString(), 'Hello world!');
+  });
+
+  it('Test iterating buffer', () => {
+    const buf = new DynamicBuffer('Hello');
+
+    assert.deepEqual([...buf], [72, 101, 108, 108, 111]);
+    assert.deepEqual([...new DynamicBuffer()], []);
+  });
 });
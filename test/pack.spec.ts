@@ -0,0 +1,89 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferOverflowError } from '../src';
+
+describe('Pack tests', () => {
+  it('Test calcsize', () => {
+    assert.equal(DynamicBuffer.calcsize('<IhH8s'), 16);
+    assert.equal(DynamicBuffer.calcsize('>hhl'), 8);
+    assert.equal(DynamicBuffer.calcsize('=bi'), 5);
+    assert.equal(DynamicBuffer.calcsize('@bi'), 8);
+    assert.equal(DynamicBuffer.calcsize('bi'), 8);
+    assert.equal(DynamicBuffer.calcsize('@ib'), 5);
+    assert.equal(DynamicBuffer.calcsize('<3x2B 4s'), 9);
+    assert.equal(DynamicBuffer.calcsize('!qQdf?c'), 30);
+    assert.equal(DynamicBuffer.calcsize(''), 0);
+
+    assert.throws(() => DynamicBuffer.calcsize('<e'));
+    assert.throws(() => DynamicBuffer.calcsize('<I4'));
+  });
+
+  it('Test pack', () => {
+    const buf = new DynamicBuffer();
+
+    assert.equal(buf.pack('>hhl', 1, 2, 3), 8);
+    assert.deepEqual(buf.toJSON().data, [0, 1, 0, 2, 0, 0, 0, 3]);
+
+    buf.clear();
+    assert.equal(buf.pack('<IhH4s', 1, -2, 3, 'abcdef'), 12);
+    assert.equal(buf.toString('hex'), '01000000feff030061626364');
+
+    buf.clear();
+    buf.pack('<2xB3s5p', 0xff, Buffer.from('a'), 'Hi');
+    assert.deepEqual(buf.toJSON().data, [0, 0, 0xff, 0x61, 0, 0, 2, 0x48, 0x69, 0, 0]);
+
+    buf.clear();
+    buf.pack('@bi', 1, 2);
+    assert.equal(buf.length, 8);
+    assert.equal(buf.readInt32LE(4) === 2 || buf.readInt32BE(4) === 2, true);
+  });
+
+  it('Test pack with invalid values', () => {
+    const buf = new DynamicBuffer();
+
+    assert.throws(() => buf.pack('<IH', 1));
+    assert.throws(() => buf.pack('<B', 1, 2));
+    assert.throws(() => buf.pack('<B', 256), RangeError);
+    assert.throws(() => buf.pack('<4s', 1), TypeError);
+    assert.throws(() => buf.pack('<c', 'ab'), TypeError);
+    assert.equal(buf.length, 0);
+  });
+
+  it('Test pack with max size', () => {
+    const buf = new DynamicBuffer({ maxSize: 6, overflow: 'truncate' });
+
+    assert.equal(buf.pack('<I', 1), 4);
+    assert.equal(buf.pack('<I', 2), 0);
+    assert.equal(buf.length, 4);
+
+    const strict = new DynamicBuffer({ maxSize: 6 });
+    assert.throws(() => strict.pack('<2I', 1, 2), DynamicBufferOverflowError);
+  });
+
+  it('Test unpack', () => {
+    const buf = new DynamicBuffer();
+    buf.pack('<IhH4s', 1, -2, 3, 'abcd');
+    buf.pack('!q?cQx2d', -5n, true, 'z', 2n ** 64n - 1n, 1.5, -0.25);
+
+    const [a, b, c, d] = buf.unpack('<IhH4s');
+    assert.deepEqual([a, b, c], [1, -2, 3]);
+    assert.equal(d?.toString(), 'abcd');
+
+    assert.deepEqual(buf.unpack('!q?cQx2d', 12), [
+      -5n, true, Buffer.from('z'), 2n ** 64n - 1n, 1.5, -0.25,
+    ]);
+    assert.deepEqual(buf.unpack('<2B', 8), [0x61, 0x62]);
+
+    assert.throws(() => buf.unpack('<I', buf.length - 3), RangeError);
+    assert.throws(() => new DynamicBuffer('ab').unpack('<I'), RangeError);
+  });
+
+  it('Test unpack pascal strings', () => {
+    const buf = new DynamicBuffer();
+    buf.pack('<4p3p', 'Hello', '');
+
+    assert.deepEqual(buf.toJSON().data, [3, 0x48, 0x65, 0x6c, 0, 0, 0]);
+    assert.deepEqual(buf.unpack('<4p3p').map((value) => value.toString()), ['Hel', '']);
+  });
+});
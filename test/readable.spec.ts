@@ -0,0 +1,167 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+import { Readable } from 'stream';
+
+import { DynamicBuffer } from '../src';
+
+const readAll = (stream: Readable): Promise<Buffer[]> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+
+  stream.on('data', (chunk) => chunks.push(chunk));
+  stream.on('end', () => resolve(chunks));
+  stream.on('error', reject);
+});
+
+describe('Readable stream tests', () => {
+  it('Test reading buffer', async () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    const chunks = await readAll(buf.createReadStream());
+    assert.equal(Buffer.concat(chunks).toString(), 'Hello world');
+  });
+
+  it('Test reading with start, end and highWaterMark', async () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    const chunks = await readAll(buf.createReadStream({ start: 2, end: 9, highWaterMark: 3 }));
+    assert.deepEqual(chunks.map((chunk) => chunk.toString()), ['llo', ' wo', 'r']);
+
+    assert.equal((await readAll(buf.createReadStream({ start: 20 }))).length, 0);
+    assert.equal((await readAll(new DynamicBuffer().createReadStream())).length, 0);
+    assert.throws(() => buf.createReadStream({ start: -1 }), RangeError);
+    assert.throws(() => buf.createReadStream({ start: 5, end: 4 }), RangeError);
+  });
+
+  it('Test chunks are views of the buffer', async () => {
+    const buf = new DynamicBuffer('Hello world');
+    const stream = buf.createReadStream({ highWaterMark: 5 });
+
+    const [chunk] = await readAll(stream);
+    buf.set([0x68], 0);
+    assert.equal(chunk.toString(), 'hello');
+  });
+
+  it('Test live mode', async () => {
+    const buf = new DynamicBuffer('Hello');
+    const stream = buf.createReadStream({ live: true });
+    const result = readAll(stream);
+
+    setImmediate(() => {
+      buf.append(' ');
+      buf.writeUInt8(0x77, buf.length);
+      setImmediate(() => {
+        buf.append('orld');
+        stream.end();
+        buf.append('!');
+      });
+    });
+
+    assert.equal(Buffer.concat(await result).toString(), 'Hello world!');
+  });
+
+  it('Test live mode with end offset', async () => {
+    const buf = new DynamicBuffer();
+    const stream = buf.createReadStream({ live: true, end: 5 });
+    const result = readAll(stream);
+
+    setImmediate(() => {
+      buf.append('Hello world');
+    });
+
+    assert.equal(Buffer.concat(await result).toString(), 'Hello');
+  });
+
+  it('Test ending live mode without new data', async () => {
+    const buf = new DynamicBuffer('Hello');
+    const stream = buf.createReadStream({ live: true });
+    const result = readAll(stream);
+
+    setImmediate(() => stream.end());
+
+    assert.equal(Buffer.concat(await result).toString(), 'Hello');
+  });
+
+  it('Test consuming data while reading', async () => {
+    const buf = new DynamicBuffer('Hello');
+    const stream = buf.createReadStream({ live: true, highWaterMark: 4 });
+    const chunks: string[] = [];
+
+    await new Promise<void>((resolve) => {
+      stream.on('data', (chunk: Buffer) => {
+        chunks.push(chunk.toString());
+        if (chunks.length === 2) {
+          buf.consume(buf.length);
+          buf.append(' world');
+          buf.consume(1);
+          stream.end();
+        }
+      });
+      stream.on('end', resolve);
+    });
+
+    assert.deepEqual(chunks, ['Hell', 'o', 'worl', 'd']);
+    assert.equal(Reflect.get(buf, 'watchers').size, 0);
+  });
+
+  it('Test end offset after consuming data', async () => {
+    const buf = new DynamicBuffer('Hello world');
+    const stream = buf.createReadStream({ start: 2, end: 8, highWaterMark: 2 });
+    const chunks: string[] = [];
+
+    await new Promise<void>((resolve) => {
+      stream.on('data', (chunk: Buffer) => {
+        chunks.push(chunk.toString());
+        if (chunks.length === 1) {
+          buf.consume(4);
+        }
+      });
+      stream.on('end', resolve);
+    });
+
+    assert.deepEqual(chunks, ['ll', 'o ', 'wo']);
+  });
+
+  it('Test chunks are not changed by consuming and appending', async () => {
+    const buf = new DynamicBuffer('AAAAAAAABBBBBBBB', { size: 16 });
+    const stream = buf.createReadStream({ highWaterMark: 8 });
+    const chunks: Buffer[] = [];
+
+    await new Promise<void>((resolve) => {
+      stream.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        if (chunks.length === 1) {
+          buf.consume(8);
+          buf.append('CCCCCCCC');
+        }
+      });
+      stream.on('end', resolve);
+    });
+
+    assert.deepEqual(chunks.map((chunk) => chunk.toString()), [
+      'AAAAAAAA',
+      'BBBBBBBB',
+      'CCCCCCCC',
+    ]);
+  });
+
+  it('Test streams leave no watcher behind', async () => {
+    const buf = new DynamicBuffer('Hello world');
+    const getWatchers = () => Reflect.get(buf, 'watchers')?.size ?? 0;
+
+    buf.createReadStream();
+    buf.createReadStream({ live: true });
+    assert.equal(getWatchers(), 0);
+
+    const chunks = await readAll(buf.createReadStream({ highWaterMark: 4 }));
+    assert.equal(Buffer.concat(chunks).toString(), 'Hello world');
+    assert.equal(getWatchers(), 0);
+
+    const stream = buf.createReadStream({ live: true });
+    stream.resume();
+    await new Promise((resolve) => { setImmediate(resolve); });
+    assert.equal(getWatchers(), 1);
+
+    stream.destroy();
+    assert.equal(getWatchers(), 0);
+  });
+});
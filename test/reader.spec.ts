@@ -0,0 +1,102 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferReader } from '../src';
+
+describe('Reader tests', () => {
+  it('Test reading sequentially', () => {
+    const buf = new DynamicBuffer();
+    buf.writeUInt8(0x12, 0);
+    buf.writeInt16LE(-2, 1);
+    buf.writeUInt32BE(0x12345678, 3);
+    buf.writeDoubleLE(1.5, 7);
+    buf.writeBigUInt64BE(4294967295n, 15);
+    buf.append('Hello');
+
+    const reader = new DynamicBufferReader(buf);
+
+    assert.equal(reader.readUInt8(), 0x12);
+    assert.equal(reader.readInt16LE(), -2);
+    assert.equal(reader.readUInt32BE(), 0x12345678);
+    assert.equal(reader.readDoubleLE(), 1.5);
+    assert.equal(reader.readBigUInt64BE(), 4294967295n);
+    assert.equal(reader.tell(), 23);
+    assert.equal(reader.remaining, 5);
+    assert.equal(reader.readString(5), 'Hello');
+    assert.equal(reader.remaining, 0);
+  });
+
+  it('Test reading all types', () => {
+    const buf = new DynamicBuffer(new Uint8Array([0x12, 0x34, 0x56, 0x78, 0x90, 0xab, 0xcd, 0xef]));
+    const reader = new DynamicBufferReader(buf);
+
+    assert.equal(reader.readBigInt64BE(), buf.readBigInt64BE(0));
+    assert.equal(reader.seek(0).readBigInt64LE(), buf.readBigInt64LE(0));
+    assert.equal(reader.seek(0).readBigUInt64LE(), buf.readBigUInt64LE(0));
+    assert.equal(reader.seek(0).readDoubleBE(), buf.readDoubleBE(0));
+    assert.equal(reader.seek(0).readFloatBE(), buf.readFloatBE(0));
+    assert.equal(reader.readFloatLE(), buf.readFloatLE(4));
+    assert.equal(reader.seek(0).readInt8(), buf.readInt8(0));
+    assert.equal(reader.readInt16BE(), buf.readInt16BE(1));
+    assert.equal(reader.readInt32BE(), buf.readInt32BE(3));
+    assert.equal(reader.seek(0).readInt32LE(), buf.readInt32LE(0));
+    assert.equal(reader.readUInt16BE(), buf.readUInt16BE(4));
+    assert.equal(reader.readUInt16LE(), buf.readUInt16LE(6));
+    assert.equal(reader.seek(0).readUInt32LE(), buf.readUInt32LE(0));
+    assert.equal(reader.seek(0).readIntBE(3), buf.readIntBE(0, 3));
+    assert.equal(reader.readIntLE(3), buf.readIntLE(3, 3));
+    assert.equal(reader.seek(0).readUIntBE(6), buf.readUIntBE(0, 6));
+    assert.equal(reader.seek(2).readUIntLE(6), buf.readUIntLE(2, 6));
+    assert.equal(reader.tell(), 8);
+  });
+
+  it('Test readBytes', () => {
+    const reader = new DynamicBufferReader(new DynamicBuffer('Hello world'));
+
+    assert.equal(reader.readBytes(5).toString(), 'Hello');
+    assert.equal(reader.readBytes().toString(), ' world');
+    assert.equal(reader.readBytes().length, 0);
+    assert.throws(() => reader.readBytes(1), RangeError);
+  });
+
+  it('Test skip and seek', () => {
+    const reader = new DynamicBufferReader(new DynamicBuffer('Hello world'), 6);
+
+    assert.equal(reader.tell(), 6);
+    assert.equal(reader.readString(reader.remaining), 'world');
+
+    reader.seek(0).skip(2);
+    assert.equal(reader.tell(), 2);
+    assert.equal(reader.readString(3), 'llo');
+
+    assert.throws(() => reader.skip(100), RangeError);
+    assert.throws(() => reader.seek(-1), RangeError);
+    assert.throws(() => reader.seek(12), RangeError);
+    assert.throws(() => new DynamicBufferReader(new DynamicBuffer(), 1), RangeError);
+    assert.equal(reader.tell(), 5);
+  });
+
+  it('Test position after consuming data', () => {
+    const buf = new DynamicBuffer('Hello world');
+    const reader = new DynamicBufferReader(buf);
+
+    assert.equal(reader.readString(6), 'Hello ');
+    buf.consume(6);
+    assert.equal(reader.tell(), 6);
+    assert.throws(() => reader.readString(5), RangeError);
+
+    reader.seek(0);
+    assert.equal(reader.readString(5), 'world');
+  });
+
+  it('Test reading truncated data', () => {
+    const reader = new DynamicBufferReader(new DynamicBuffer(new Uint8Array([1, 2, 3])));
+
+    assert.equal(reader.readUInt16BE(), 0x0102);
+    assert.throws(() => reader.readUInt16BE(), RangeError);
+    assert.throws(() => reader.readString(2), RangeError);
+    assert.equal(reader.tell(), 2);
+    assert.equal(reader.readUInt8(), 3);
+    assert.throws(() => reader.readUInt8(), RangeError);
+  });
+});
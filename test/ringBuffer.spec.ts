@@ -0,0 +1,269 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBufferOverflowError, DynamicRingBuffer } from '../src';
+
+describe('Ring buffer tests', () => {
+  it('Test initializing ring buffer', () => {
+    const buf = new DynamicRingBuffer(8);
+
+    assert.equal(buf.capacity, 8);
+    assert.equal(buf.length, 0);
+    assert.equal(buf.available, 0);
+    assert.equal(buf.free, 8);
+
+    assert.throws(() => new DynamicRingBuffer(0), RangeError);
+    // @ts-ignore
+    assert.throws(() => new DynamicRingBuffer(8, { overflow: 'unknown' }));
+  });
+
+  it('Test appending with overwrite mode', () => {
+    const buf = new DynamicRingBuffer(8);
+
+    assert.equal(buf.append('Hello'), 5);
+    assert.equal(buf.free, 3);
+    assert.equal(buf.append(' world'), 6);
+    assert.equal(buf.toString(), 'lo world');
+    assert.equal(buf.available, 8);
+    assert.equal(buf.free, 0);
+
+    assert.equal(buf.append('Hello world!'), 8);
+    assert.equal(buf.toString(), 'o world!');
+  });
+
+  it('Test appending with reject and throw modes', () => {
+    const rejected = new DynamicRingBuffer(8, { overflow: 'reject' });
+
+    assert.equal(rejected.append('Hello'), 5);
+    assert.equal(rejected.append(' world'), 0);
+    assert.equal(rejected.append(Buffer.from('!!!')), 3);
+    assert.equal(rejected.toString(), 'Hello!!!');
+
+    const thrown = new DynamicRingBuffer(8, { overflow: 'throw' });
+    thrown.append('Hello');
+    assert.throws(() => thrown.append(' world'), (err: DynamicBufferOverflowError) => {
+      assert.ok(err instanceof DynamicBufferOverflowError);
+      assert.equal(err.requestedSize, 11);
+      assert.equal(err.maxSize, 8);
+      return true;
+    });
+    assert.equal(thrown.toString(), 'Hello');
+  });
+
+  it('Test indexed access with wraparound', () => {
+    const buf = new DynamicRingBuffer(8);
+    buf.append('Hello world');
+
+    assert.equal(buf[0], 0x6c);
+    assert.equal(buf[7], 0x64);
+    assert.equal(buf[8], undefined);
+    assert.equal(buf.at(-1), 0x64);
+
+    buf[3] = 0x57;
+    assert.equal(buf.toString(), 'lo World');
+    assert.throws(() => {
+      buf[8] = 0x21;
+    }, RangeError);
+  });
+
+  it('Test consume and shift', () => {
+    const buf = new DynamicRingBuffer(8);
+    buf.append('Hello world');
+
+    assert.equal(buf.consume(3), 3);
+    assert.equal(buf.toString(), 'world');
+    assert.equal(buf.free, 3);
+
+    buf.append('!!!');
+    assert.equal(buf.shift(5).toString(), 'world');
+    assert.equal(buf.toString(), '!!!');
+    assert.equal(buf.consume(10), 3);
+    assert.equal(buf.length, 0);
+    assert.equal(buf.shift(1).length, 0);
+
+    assert.throws(() => buf.consume(-1), RangeError);
+    assert.equal(buf.clear(), buf);
+  });
+
+  it('Test peek', () => {
+    const buf = new DynamicRingBuffer(8);
+
+    assert.deepEqual(buf.peek(), []);
+
+    buf.append('Hello');
+    assert.deepEqual(buf.peek().map((seg) => seg.toString()), ['Hello']);
+
+    buf.append(' world');
+    const segments = buf.peek();
+    assert.deepEqual(segments.map((seg) => seg.toString()), ['lo wo', 'rld']);
+    assert.deepEqual(buf.peek(4).map((seg) => seg.toString()), ['lo w']);
+    assert.deepEqual(buf.peek(6).map((seg) => seg.toString()), ['lo wo', 'r']);
+
+    buf[0] = 0x4c;
+    assert.equal(segments[0].toString(), 'Lo wo');
+  });
+
+  it('Test reading numbers across the boundary', () => {
+    const buf = new DynamicRingBuffer(8);
+    const data = Buffer.alloc(8);
+    data.writeUInt32BE(0x12345678, 0);
+    data.writeInt16LE(-2, 4);
+
+    buf.append('abcdef');
+    buf.consume(6);
+    buf.append(data);
+
+    assert.equal(buf.readUInt32BE(), 0x12345678);
+    assert.equal(buf.readUInt32LE(), 0x78563412);
+    assert.equal(buf.readInt16LE(4), -2);
+    assert.equal(buf.readUInt8(1), 0x34);
+    assert.equal(buf.readUIntBE(0, 3), 0x123456);
+    assert.equal(buf.readBigUInt64BE(), 0x12345678feff0000n);
+
+    assert.throws(() => buf.readUInt32BE(5), RangeError);
+    assert.throws(() => new DynamicRingBuffer(8).readInt8(), RangeError);
+  });
+
+  it('Test reading all number types at every wrap position', () => {
+    const data = Buffer.from('3ff0123456789abcdef0fedcba98765432', 'hex');
+    const readers: [number, (buf: Buffer | DynamicRingBuffer, offset: number) => unknown][] = [
+      [1, (buf, offset) => buf.readInt8(offset)],
+      [1, (buf, offset) => buf.readUInt8(offset)],
+      [2, (buf, offset) => buf.readInt16BE(offset)],
+      [2, (buf, offset) => buf.readInt16LE(offset)],
+      [2, (buf, offset) => buf.readUInt16BE(offset)],
+      [2, (buf, offset) => buf.readUInt16LE(offset)],
+      [4, (buf, offset) => buf.readInt32BE(offset)],
+      [4, (buf, offset) => buf.readInt32LE(offset)],
+      [4, (buf, offset) => buf.readUInt32BE(offset)],
+      [4, (buf, offset) => buf.readUInt32LE(offset)],
+      [4, (buf, offset) => buf.readFloatBE(offset)],
+      [4, (buf, offset) => buf.readFloatLE(offset)],
+      [8, (buf, offset) => buf.readDoubleBE(offset)],
+      [8, (buf, offset) => buf.readDoubleLE(offset)],
+      [8, (buf, offset) => buf.readBigInt64BE(offset)],
+      [8, (buf, offset) => buf.readBigInt64LE(offset)],
+      [8, (buf, offset) => buf.readBigUInt64BE(offset)],
+      [8, (buf, offset) => buf.readBigUInt64LE(offset)],
+      [3, (buf, offset) => buf.readIntBE(offset, 3)],
+      [5, (buf, offset) => buf.readIntLE(offset, 5)],
+      [6, (buf, offset) => buf.readUIntBE(offset, 6)],
+      [6, (buf, offset) => buf.readUIntLE(offset, 6)],
+    ];
+
+    for (let head = 0; head < data.length; head += 1) {
+      const buf = new DynamicRingBuffer(data.length);
+      buf.append(Buffer.alloc(head));
+      buf.consume(head);
+      buf.append(data);
+
+      readers.forEach(([byteLength, reader]) => {
+        for (let offset = 0; offset <= data.length - byteLength; offset += 1) {
+          assert.deepStrictEqual(reader(buf, offset), reader(data, offset));
+        }
+      });
+    }
+  });
+
+  it('Test reading numbers with invalid offset or length', () => {
+    const buf = new DynamicRingBuffer(8);
+    buf.append('Hello world');
+
+    assert.throws(() => buf.readIntBE(0, 0), RangeError);
+    assert.throws(() => buf.readIntLE(0, 7), RangeError);
+    assert.throws(() => buf.readUIntBE(3, 6), RangeError);
+    assert.throws(() => buf.readUIntLE(-1, 2), RangeError);
+    assert.throws(() => buf.readInt32LE(5), RangeError);
+    assert.throws(() => buf.readBigInt64BE(1), RangeError);
+
+    buf.consume(5);
+    assert.throws(() => buf.readDoubleLE(), RangeError);
+    assert.throws(() => buf.readFloatBE(), RangeError);
+    assert.equal(buf.readUIntBE(0, 3), 0x726c64);
+  });
+
+  it('Test read and at across the boundary', () => {
+    const buf = new DynamicRingBuffer(8);
+    buf.append('Hello world');
+
+    assert.equal(buf.read(), 0x6c);
+    assert.equal(buf.read(4), 0x6f);
+    assert.equal(buf.read(5), 0x72);
+    assert.equal(buf.read(7), 0x64);
+    assert.equal(buf.read(8), undefined);
+    assert.equal(buf.read(-1), undefined);
+
+    assert.equal(buf.at(0), 0x6c);
+    assert.equal(buf.at(5), 0x72);
+    assert.equal(buf.at(-3), 0x72);
+    assert.equal(buf.at(-8), 0x6c);
+    assert.equal(buf.at(-9), undefined);
+    assert.equal(buf.at(8), undefined);
+    assert.equal(new DynamicRingBuffer(8).at(0), undefined);
+  });
+
+  it('Test shift across the boundary', () => {
+    const buf = new DynamicRingBuffer(8);
+    buf.append('Hello world');
+
+    assert.equal(buf.shift(0).length, 0);
+    assert.equal(buf.shift(6).toString(), 'lo wor');
+    assert.equal(buf.toString(), 'ld');
+
+    buf.append('abcdef');
+    assert.equal(buf.free, 0);
+    assert.equal(buf.shift(3).toString(), 'lda');
+    assert.equal(buf.readUInt16BE(), 0x6263);
+    assert.equal(buf.shift(10).toString(), 'bcdef');
+    assert.equal(buf.length, 0);
+    assert.throws(() => buf.shift(-1), RangeError);
+  });
+
+  it('Test indexOf', () => {
+    const buf = new DynamicRingBuffer(8);
+    buf.append('Hello world');
+
+    assert.equal(buf.indexOf('lo'), 0);
+    assert.equal(buf.indexOf('o w'), 1);
+    assert.equal(buf.indexOf('wor'), 3);
+    assert.equal(buf.indexOf('rld'), 5);
+    assert.equal(buf.indexOf(0x6f), 1);
+    assert.equal(buf.indexOf('o', 2), 4);
+    assert.equal(buf.indexOf('o', -3), -1);
+    assert.equal(buf.indexOf(Buffer.from('ld')), 6);
+    assert.equal(buf.indexOf('Hello'), -1);
+    assert.equal(buf.indexOf(''), 0);
+    assert.equal(new DynamicRingBuffer(8).indexOf('a'), -1);
+  });
+
+  it('Test toBuffer', () => {
+    const buf = new DynamicRingBuffer(8);
+    buf.append('Hello world');
+
+    assert.equal(buf.toBuffer().toString(), 'lo world');
+    assert.equal(buf.toBuffer(2, 6).toString(), ' wor');
+    assert.equal(buf.toBuffer(6, 100).toString(), 'ld');
+    assert.equal(buf.toBuffer(5, 2).length, 0);
+    assert.equal(buf.toString('hex', 6), '6c64');
+  });
+
+  it('Test iterating ring buffer', () => {
+    const buf = new DynamicRingBuffer(4);
+    buf.append('Hello');
+
+    assert.deepEqual([...buf], [0x65, 0x6c, 0x6c, 0x6f]);
+    assert.deepEqual(Array.from(buf.values()), [0x65, 0x6c, 0x6c, 0x6f]);
+
+    const bytes: number[] = [];
+    const iterator = buf.values();
+    buf.append('!');
+    for (const byte of iterator) {
+      bytes.push(byte);
+    }
+    assert.deepEqual(bytes, [0x65, 0x6c, 0x6c, 0x6f]);
+    assert.deepEqual([...new DynamicRingBuffer(4)], []);
+
+    assert.equal(Reflect.get(buf, Symbol.toStringTag), undefined);
+    assert.equal(String(buf), 'llo!');
+  });
+});
@@ -206,3 +206,83 @@ describe('LastIndexOf tests', () => {
     assert.equal(buf.lastIndexOf(buf3), -1);
   });
 });
+
+describe('Split tests', () => {
+  const toStrings = (items: (Buffer | DynamicBuffer)[]) => items.map((item) => item.toString());
+
+  it('Test split', () => {
+    const buf = new DynamicBuffer('a,b,,c');
+
+    assert.deepEqual(toStrings(buf.split(',')), ['a', 'b', '', 'c']);
+    assert.deepEqual(toStrings(buf.split(',', 2)), ['a', 'b']);
+    assert.deepEqual(toStrings(buf.split(',', 0)), []);
+    assert.deepEqual(toStrings(buf.split(',b,')), ['a', ',c']);
+    assert.deepEqual(toStrings(buf.split(0x2c)), ['a', 'b', '', 'c']);
+    assert.deepEqual(toStrings(buf.split(Buffer.from(','))), ['a', 'b', '', 'c']);
+    assert.deepEqual(toStrings(buf.split(new DynamicBuffer(','))), ['a', 'b', '', 'c']);
+    assert.deepEqual(toStrings(buf.split(';')), ['a,b,,c']);
+    assert.deepEqual(toStrings(new DynamicBuffer('a,').split(',')), ['a', '']);
+    assert.deepEqual(toStrings(new DynamicBuffer().split(',')), ['']);
+  });
+
+  it('Test split as DynamicBuffer', () => {
+    const buf = new DynamicBuffer('a\0b', { encoding: 'latin1' });
+
+    const items = buf.split(0, undefined, { asDynamicBuffer: true });
+    assert.ok(items.every((item) => item instanceof DynamicBuffer));
+    assert.deepEqual(toStrings(items), ['a', 'b']);
+
+    items[0].append('!');
+    assert.equal(buf.toString(), 'a\0b');
+  });
+
+  it('Test split with invalid arguments', () => {
+    const buf = new DynamicBuffer('a,b');
+
+    assert.throws(() => buf.split(''), RangeError);
+    assert.throws(() => buf.split(',', -1), RangeError);
+  });
+});
+
+describe('Lines tests', () => {
+  it('Test lines', () => {
+    const buf = new DynamicBuffer('line1\nline2\r\n\nline3');
+
+    const lines = Array.from(buf.lines()).map((line) => line.toString());
+    assert.deepEqual(lines, ['line1', 'line2\r', '', 'line3']);
+    assert.deepEqual(Array.from(new DynamicBuffer('a\n').lines()).map(String), ['a']);
+    assert.equal(Array.from(new DynamicBuffer().lines()).length, 0);
+  });
+
+  it('Test lines with CRLF', () => {
+    const buf = new DynamicBuffer('GET / HTTP/1.1\r\nHost: example.com\r\n\r\n');
+
+    const lines = Array.from(buf.lines({ crlf: true })).map((line) => line.toString());
+    assert.deepEqual(lines, ['GET / HTTP/1.1', 'Host: example.com', '']);
+  });
+
+  it('Test readLine', () => {
+    const buf = new DynamicBuffer('PING\r\nECHO hi\r\nPAR');
+
+    assert.equal(buf.readLine({ crlf: true })?.toString(), 'PING');
+    assert.equal(buf.readLine({ crlf: true })?.toString(), 'ECHO hi');
+    assert.equal(buf.readLine({ crlf: true }), undefined);
+    assert.equal(buf.toString(), 'PAR');
+
+    buf.append('TIAL\nnext');
+    assert.equal(buf.readLine()?.toString(), 'PARTIAL');
+    assert.equal(buf.toString(), 'next');
+  });
+
+  it('Test readUntil', () => {
+    const buf = new DynamicBuffer('record1\0record2\0rec');
+
+    const record = buf.readUntil(0);
+    assert.equal(record?.toString(), 'record1');
+    assert.equal(buf.readUntil(Buffer.from([0]))?.toString(), 'record2');
+    assert.equal(buf.readUntil(0), undefined);
+    assert.equal(buf.toString(), 'rec');
+    assert.equal(record?.toString(), 'record1');
+    assert.throws(() => buf.readUntil(''), RangeError);
+  });
+});
@@ -0,0 +1,118 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer } from '../src';
+
+describe('Static from tests', () => {
+  it('Test from string', () => {
+    assert.equal(DynamicBuffer.from('Hello').toString(), 'Hello');
+
+    const buf = DynamicBuffer.from('SGVsbG8=', { encoding: 'base64' });
+    assert.equal(buf.toString('utf8'), 'Hello');
+  });
+
+  it('Test from multibyte string', () => {
+    const buf = DynamicBuffer.from('½ + ¼ = ¾');
+
+    assert.equal(buf.length, 12);
+    assert.equal(buf.toString(), '½ + ¼ = ¾');
+    assert.equal(new DynamicBuffer('你好', { size: 2 }).toString(), '你好');
+  });
+
+  it('Test from buffers', () => {
+    const source = new DynamicBuffer('Hello');
+    const buf = DynamicBuffer.from(source);
+
+    assert.equal(buf.toString(), 'Hello');
+    buf[0] = 74;
+    assert.equal(source.toString(), 'Hello');
+
+    assert.equal(DynamicBuffer.from(Buffer.from('Hello')).toString(), 'Hello');
+    assert.equal(DynamicBuffer.from(new Uint8Array([72, 105])).toString(), 'Hi');
+  });
+
+  it('Test from array buffer', () => {
+    const arrayBuffer = new ArrayBuffer(2);
+    new Uint8Array(arrayBuffer).set([72, 105]);
+
+    const buf = DynamicBuffer.from(arrayBuffer);
+    assert.equal(buf.toString(), 'Hi');
+
+    const shared = new SharedArrayBuffer(2);
+    new Uint8Array(shared).set([72, 105]);
+    assert.equal(DynamicBuffer.from(shared).toString(), 'Hi');
+  });
+
+  it('Test from array-like and iterable', () => {
+    assert.equal(DynamicBuffer.from([72, 101, 108, 108, 111]).toString(), 'Hello');
+    assert.equal(DynamicBuffer.from({ length: 2, 0: 72, 1: 105 }).toString(), 'Hi');
+    assert.equal(DynamicBuffer.from(new Set([72, 105])).toString(), 'Hi');
+
+    function* gen() {
+      yield 72;
+      yield 105;
+    }
+    assert.equal(DynamicBuffer.from(gen()).toString(), 'Hi');
+  });
+
+  it('Test from with options', () => {
+    const buf = DynamicBuffer.from([1, 2, 3], { size: 64 });
+
+    assert.equal(buf.length, 3);
+    assert.equal(buf.capacity, 64);
+  });
+});
+
+describe('Static alloc tests', () => {
+  it('Test alloc', () => {
+    const buf = DynamicBuffer.alloc(5);
+
+    assert.equal(buf.length, 5);
+    assert.deepEqual(buf.toJSON().data, [0, 0, 0, 0, 0]);
+
+    assert.equal(DynamicBuffer.alloc(5, 'a').toString(), 'aaaaa');
+    assert.equal(DynamicBuffer.alloc(4, '6869', 'hex').toString(), 'hihi');
+    assert.equal(DynamicBuffer.alloc(0).length, 0);
+    assert.equal(DynamicBuffer.alloc(2, 1, 'utf8', { size: 32 }).capacity, 32);
+
+    assert.throws(() => DynamicBuffer.alloc(-1), RangeError);
+  });
+});
+
+describe('Static concat tests', () => {
+  it('Test concat', () => {
+    const buf = DynamicBuffer.concat([
+      new DynamicBuffer('Hello'),
+      Buffer.from(' '),
+      new Uint8Array([119, 111, 114, 108, 100]),
+    ]);
+
+    assert.equal(buf.toString(), 'Hello world');
+    assert.equal(DynamicBuffer.concat([]).length, 0);
+  });
+
+  it('Test concat with total length', () => {
+    const list = [new DynamicBuffer('Hello'), Buffer.from(' world')];
+
+    assert.equal(DynamicBuffer.concat(list, 5).toString(), 'Hello');
+    assert.deepEqual(DynamicBuffer.concat([Buffer.from('Hi')], 4).toJSON().data, [72, 105, 0, 0]);
+    assert.throws(() => DynamicBuffer.concat(list, -1), RangeError);
+  });
+});
+
+describe('Static byteLength and isEncoding tests', () => {
+  it('Test byteLength', () => {
+    assert.equal(DynamicBuffer.byteLength('Hello'), 5);
+    assert.equal(DynamicBuffer.byteLength('½ + ¼ = ¾'), 12);
+    assert.equal(DynamicBuffer.byteLength('SGVsbG8=', 'base64'), 5);
+    assert.equal(DynamicBuffer.byteLength(new DynamicBuffer('Hello')), 5);
+    assert.equal(DynamicBuffer.byteLength(Buffer.from('Hello')), 5);
+    assert.equal(DynamicBuffer.byteLength(new ArrayBuffer(8)), 8);
+  });
+
+  it('Test isEncoding', () => {
+    assert.equal(DynamicBuffer.isEncoding('utf8'), true);
+    assert.equal(DynamicBuffer.isEncoding('hex'), true);
+    assert.equal(DynamicBuffer.isEncoding('utf-32'), false);
+  });
+});
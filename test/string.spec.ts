@@ -0,0 +1,103 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferOverflowError } from '../src';
+
+describe('String tests', () => {
+  it('Test writeCString and readCString', () => {
+    const buf = new DynamicBuffer();
+
+    assert.equal(buf.writeCString('Hello'), 6);
+    assert.equal(buf.writeCString('', 6), 7);
+    assert.equal(buf.writeCString('你好', 7), 14);
+    assert.deepEqual(buf.toBuffer().subarray(0, 7), Buffer.from('Hello\0\0'));
+
+    assert.deepEqual(buf.readCString(), { value: 'Hello', bytesRead: 6 });
+    assert.deepEqual(buf.readCString(2), { value: 'llo', bytesRead: 4 });
+    assert.deepEqual(buf.readCString(6), { value: '', bytesRead: 1 });
+    assert.deepEqual(buf.readCString(7), { value: '你好', bytesRead: 7 });
+
+    assert.throws(() => buf.writeCString('a\0b'), TypeError);
+    assert.throws(() => buf.writeCString('610062', 0, 'hex'), TypeError);
+    assert.throws(() => buf.writeCString('AA==', 0, 'base64'), TypeError);
+    assert.throws(() => buf.writeCString('a', -1), RangeError);
+    assert.throws(() => buf.readCString(-1), RangeError);
+    assert.throws(() => buf.readCString(14), RangeError);
+    assert.throws(() => new DynamicBuffer('Hello').readCString(), RangeError);
+    assert.throws(() => new DynamicBuffer().readCString(), RangeError);
+
+    assert.equal(buf.writeCString('610062', 14, 'latin1'), 21);
+    assert.deepEqual(buf.readCString(14), { value: '610062', bytesRead: 7 });
+  });
+
+  it('Test C strings with UTF-16 encoding', () => {
+    const buf = new DynamicBuffer({ encoding: 'utf16le' });
+
+    assert.equal(buf.writeCString('ĀA'), 6);
+    assert.deepEqual(buf.toJSON().data, [0x00, 0x01, 0x41, 0x00, 0x00, 0x00]);
+    assert.deepEqual(buf.readCString(), { value: 'ĀA', bytesRead: 6 });
+    assert.deepEqual(buf.readCString(0, 'utf8'), { value: '', bytesRead: 1 });
+  });
+
+  it('Test writeCString with max size', () => {
+    const buf = new DynamicBuffer({ maxSize: 6, overflow: 'truncate' });
+
+    assert.equal(buf.writeCString('Hello!'), 0);
+    assert.equal(buf.length, 0);
+    assert.equal(buf.writeCString('Hello'), 6);
+
+    const strict = new DynamicBuffer({ maxSize: 6 });
+    assert.throws(() => strict.writeCString('Hello!'), DynamicBufferOverflowError);
+  });
+
+  it('Test writePString and readPString', () => {
+    const buf = new DynamicBuffer();
+
+    let offset = buf.writePString('Hello');
+    assert.equal(offset, 6);
+    offset = buf.writePString('Hi', offset, { prefix: 'u16le' });
+    assert.equal(offset, 10);
+    offset = buf.writePString('a'.repeat(200), offset, { prefix: 'varint' });
+    assert.equal(offset, 212);
+    assert.deepEqual(buf.toBuffer().subarray(0, 12), Buffer.from([
+      5, 0x48, 0x65, 0x6c, 0x6c, 0x6f, 2, 0, 0x48, 0x69, 0xc8, 0x01,
+    ]));
+
+    assert.deepEqual(buf.readPString(), { value: 'Hello', bytesRead: 6 });
+    assert.deepEqual(buf.readPString(6, { prefix: 'u16le' }), { value: 'Hi', bytesRead: 4 });
+    assert.deepEqual(buf.readPString(10, { prefix: 'varint' }), {
+      value: 'a'.repeat(200),
+      bytesRead: 202,
+    });
+    assert.deepEqual(buf.readPString(0, { encoding: 'hex' }), {
+      value: '48656c6c6f',
+      bytesRead: 6,
+    });
+  });
+
+  it('Test length-prefixed strings with invalid values', () => {
+    const buf = new DynamicBuffer();
+
+    assert.throws(() => buf.writePString('a'.repeat(256)), RangeError);
+    assert.equal(buf.writePString('a'.repeat(255)), 256);
+    assert.throws(() => buf.writePString('a', -1), RangeError);
+    assert.throws(() => buf.writePString('a', 0, { prefix: 'u32be' as 'u8' }));
+    assert.throws(() => buf.readPString(0, { prefix: 'u32be' as 'u8' }));
+
+    assert.throws(() => new DynamicBuffer(Buffer.from([5, 0x48])).readPString(), RangeError);
+    assert.throws(() => new DynamicBuffer().readPString(), RangeError);
+    assert.throws(() => new DynamicBuffer(Buffer.from([0x80])).readPString(0, {
+      prefix: 'varint',
+    }), RangeError);
+  });
+
+  it('Test writePString with max size', () => {
+    const buf = new DynamicBuffer({ maxSize: 4, overflow: 'truncate' });
+
+    assert.equal(buf.writePString('Hello'), 0);
+    assert.equal(buf.length, 0);
+
+    const strict = new DynamicBuffer({ maxSize: 4 });
+    assert.throws(() => strict.writePString('Hello'), DynamicBufferOverflowError);
+  });
+});
@@ -0,0 +1,243 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferOverflowError, defineStruct } from '../src';
+
+describe('Struct tests', () => {
+  const Reading = defineStruct({
+    id: 'u32le',
+    temp: 'f32be',
+    name: { type: 'string', length: 8 },
+  });
+
+  it('Test struct size and offsets', () => {
+    assert.equal(Reading.size, 16);
+    assert.equal(Reading.offsetOf('id'), 0);
+    assert.equal(Reading.offsetOf('temp'), 4);
+    assert.equal(Reading.offsetOf('name'), 8);
+    // @ts-ignore
+    assert.throws(() => Reading.offsetOf('unknown'));
+  });
+
+  it('Test encoding and decoding struct', () => {
+    const buf = new DynamicBuffer();
+
+    assert.equal(Reading.encode({ id: 1, temp: 21.5, name: 'kitchen' }, buf), 16);
+    assert.equal(Reading.encode({ id: 2, temp: -3, name: 'garden' }, buf), 32);
+    assert.equal(buf.length, 32);
+    assert.equal(buf.readUInt32LE(16), 2);
+    assert.equal(buf.readFloatBE(4), 21.5);
+
+    assert.deepEqual(Reading.decode(buf), { id: 1, temp: 21.5, name: 'kitchen' });
+    assert.deepEqual(Reading.decode(buf, 16), { id: 2, temp: -3, name: 'garden' });
+    assert.deepEqual(Reading.decode(buf.toBuffer(), 16), { id: 2, temp: -3, name: 'garden' });
+  });
+
+  it('Test encoding struct at offset', () => {
+    const buf = new DynamicBuffer('Hello world, Hello world');
+
+    Reading.encode({ id: 0x41424344, temp: 0, name: 'too long name' }, buf, 4);
+    assert.equal(buf.length, 24);
+    assert.equal(buf.toString('latin1', 0, 8), 'HellDCBA');
+    assert.deepEqual(Reading.decode(buf, 4), { id: 0x41424344, temp: 0, name: 'too long' });
+
+    Reading.encode({ id: 1, temp: 1, name: '' }, buf, 20);
+    assert.equal(buf.length, 36);
+
+    assert.throws(() => Reading.encode({ id: 1, temp: 1, name: '' }, buf, -1), RangeError);
+    assert.throws(
+      () => Reading.encode({ id: 1, temp: 1, name: '' }, new DynamicBuffer({ maxSize: 8 })),
+      DynamicBufferOverflowError,
+    );
+  });
+
+  it('Test decoding out of range', () => {
+    const buf = new DynamicBuffer();
+    Reading.encode({ id: 1, temp: 1, name: 'a' }, buf);
+
+    assert.throws(() => Reading.decode(buf, 1), RangeError);
+    assert.throws(() => Reading.decode(new DynamicBuffer('short')), RangeError);
+  });
+
+  it('Test nested structs, arrays, bytes and padding', () => {
+    const Point = defineStruct({ x: 'i16le', y: 'i16le' });
+    const Shape = defineStruct({
+      kind: 'u8',
+      reserved: { type: 'padding', length: 3 },
+      origin: Point,
+      vertices: { type: 'array', of: Point, length: 3 },
+      tags: { type: 'array', of: 'u8', length: 4 },
+      checksum: { type: 'bytes', length: 2 },
+      serial: 'u64be',
+    });
+
+    assert.equal(Shape.size, 1 + 3 + 4 + 12 + 4 + 2 + 8);
+    assert.equal(Shape.offsetOf('origin'), 4);
+
+    const shape = {
+      kind: 2,
+      origin: { x: -1, y: 1 },
+      vertices: [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 0, y: 10 }],
+      tags: [1, 2],
+      checksum: Buffer.from([0xab, 0xcd]),
+      serial: 12345678901234567890n,
+    };
+
+    const buf = new DynamicBuffer({ fill: 0xff });
+    Shape.encode(shape, buf);
+    assert.deepEqual(buf.toJSON().data.slice(0, 8), [2, 0, 0, 0, 0xff, 0xff, 1, 0]);
+
+    const decoded = Shape.decode(buf);
+    assert.deepEqual(decoded, { ...shape, tags: [1, 2, 0, 0] });
+    assert.equal(Object.keys(decoded).includes('reserved'), false);
+
+    const { serial, vertices: [, { x }] } = decoded;
+    const num: number = x;
+    const big: bigint = serial;
+    assert.equal(num, 10);
+    assert.equal(big, 12345678901234567890n);
+  });
+
+  it('Test encoding and decoding all primitive types', () => {
+    const Numbers = defineStruct({
+      u8: 'u8',
+      i8: 'i8',
+      u16le: 'u16le',
+      u16be: 'u16be',
+      i16le: 'i16le',
+      i16be: 'i16be',
+      u32le: 'u32le',
+      u32be: 'u32be',
+      i32le: 'i32le',
+      i32be: 'i32be',
+      u64le: 'u64le',
+      u64be: 'u64be',
+      i64le: 'i64le',
+      i64be: 'i64be',
+      f32le: 'f32le',
+      f32be: 'f32be',
+      f64le: 'f64le',
+      f64be: 'f64be',
+    });
+    const value = {
+      u8: 0xfe,
+      i8: -2,
+      u16le: 0x1234,
+      u16be: 0x1234,
+      i16le: -0x1234,
+      i16be: -0x1234,
+      u32le: 0x12345678,
+      u32be: 0x12345678,
+      i32le: -0x12345678,
+      i32be: -0x12345678,
+      u64le: 0x123456789abcdef0n,
+      u64be: 0x123456789abcdef0n,
+      i64le: -0x123456789abcdef0n,
+      i64be: -0x123456789abcdef0n,
+      f32le: 1.5,
+      f32be: -2.25,
+      f64le: Math.PI,
+      f64be: -Math.E,
+    };
+
+    assert.equal(Numbers.size, 2 + 8 + 16 + 32 + 8 + 16);
+    assert.equal(Numbers.offsetOf('u64le'), 26);
+    assert.equal(Numbers.offsetOf('f64be'), 74);
+
+    const buf = new DynamicBuffer();
+    assert.equal(Numbers.encode(value, buf), 82);
+    assert.deepEqual(Numbers.decode(buf), value);
+
+    const expected = Buffer.alloc(82);
+    expected.writeUInt8(0xfe, 0);
+    expected.writeInt8(-2, 1);
+    expected.writeUInt16LE(0x1234, 2);
+    expected.writeUInt16BE(0x1234, 4);
+    expected.writeInt16LE(-0x1234, 6);
+    expected.writeInt16BE(-0x1234, 8);
+    expected.writeUInt32LE(0x12345678, 10);
+    expected.writeUInt32BE(0x12345678, 14);
+    expected.writeInt32LE(-0x12345678, 18);
+    expected.writeInt32BE(-0x12345678, 22);
+    expected.writeBigUInt64LE(0x123456789abcdef0n, 26);
+    expected.writeBigUInt64BE(0x123456789abcdef0n, 34);
+    expected.writeBigInt64LE(-0x123456789abcdef0n, 42);
+    expected.writeBigInt64BE(-0x123456789abcdef0n, 50);
+    expected.writeFloatLE(1.5, 58);
+    expected.writeFloatBE(-2.25, 62);
+    expected.writeDoubleLE(Math.PI, 66);
+    expected.writeDoubleBE(-Math.E, 74);
+    assert.equal(buf.toString('hex'), expected.toString('hex'));
+  });
+
+  it('Test encoding primitive values out of range', () => {
+    const Values = defineStruct({ a: 'u8', b: 'i64be' });
+    const buf = new DynamicBuffer();
+
+    assert.throws(() => Values.encode({ a: 256, b: 0n }, buf), RangeError);
+    assert.throws(() => Values.encode({ a: 0, b: 0x8000000000000000n }, buf), RangeError);
+    assert.equal(buf.length, 0);
+  });
+
+  it('Test arrays of structs and strings', () => {
+    const Entry = defineStruct({ id: 'u16be', value: 'i32be' });
+    const Table = defineStruct({
+      count: 'u8',
+      entries: { type: 'array', of: Entry, length: 2 },
+      names: { type: 'array', of: { type: 'string', length: 4 }, length: 2 },
+      matrix: { type: 'array', of: { type: 'array', of: 'f32le', length: 2 }, length: 2 },
+    });
+
+    assert.equal(Table.size, 1 + 12 + 8 + 16);
+    assert.equal(Table.offsetOf('names'), 13);
+
+    const buf = new DynamicBuffer();
+    Table.encode({
+      count: 3,
+      entries: [{ id: 1, value: -1 }, { id: 2, value: 2 }, { id: 3, value: 3 }],
+      names: ['ab'],
+      matrix: [[1, 2], [3]],
+    }, buf);
+
+    assert.equal(buf.length, Table.size);
+    assert.equal(buf.readUInt16BE(7), 2);
+    assert.equal(buf.readInt32BE(3), -1);
+    assert.deepEqual(Table.decode(buf), {
+      count: 3,
+      entries: [{ id: 1, value: -1 }, { id: 2, value: 2 }],
+      names: ['ab', ''],
+      matrix: [[1, 2], [3, 0]],
+    });
+  });
+
+  it('Test invalid schema', () => {
+    // @ts-ignore
+    assert.throws(() => defineStruct({ id: 'u24' }));
+    // @ts-ignore
+    assert.throws(() => defineStruct({ id: { type: 'unknown', length: 1 } }));
+    assert.throws(() => defineStruct({ id: { type: 'string', length: -1 } }), RangeError);
+  });
+
+  it('Test invalid field type errors', () => {
+    assert.throws(
+      // @ts-ignore
+      () => defineStruct({ id: 'u24' }),
+      { name: 'Error', message: "Invalid struct field type 'u24'" },
+    );
+    assert.throws(
+      // @ts-ignore
+      () => defineStruct({ id: { type: 'unknown', length: 1 } }),
+      { name: 'Error', message: "Invalid struct field type 'unknown'" },
+    );
+    assert.throws(
+      // @ts-ignore
+      () => defineStruct({ list: { type: 'array', of: { type: 'union', length: 2 }, length: 2 } }),
+      { name: 'Error', message: "Invalid struct field type 'union'" },
+    );
+    assert.throws(
+      // @ts-ignore
+      () => defineStruct({ list: { type: 'array', of: 'u8' } }),
+      TypeError,
+    );
+  });
+});
@@ -0,0 +1,140 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferOverflowError } from '../src';
+
+describe('Varint tests', () => {
+  it('Test writeVarUInt and readVarUInt', () => {
+    const buf = new DynamicBuffer();
+
+    assert.equal(buf.writeVarUInt(0), 1);
+    assert.equal(buf.writeVarUInt(127, 1), 2);
+    assert.equal(buf.writeVarUInt(300, 2), 4);
+    assert.equal(buf.writeVarUInt(Number.MAX_SAFE_INTEGER, 4), 12);
+    assert.deepEqual(buf.toBuffer().subarray(0, 4), Buffer.from([0x00, 0x7f, 0xac, 0x02]));
+
+    assert.deepEqual(buf.readVarUInt(0), { value: 0, bytesRead: 1 });
+    assert.deepEqual(buf.readVarUInt(1), { value: 127, bytesRead: 1 });
+    assert.deepEqual(buf.readVarUInt(2), { value: 300, bytesRead: 2 });
+    assert.deepEqual(buf.readVarUInt(4), { value: Number.MAX_SAFE_INTEGER, bytesRead: 8 });
+
+    assert.throws(() => buf.writeVarUInt(-1), RangeError);
+    assert.throws(() => buf.writeVarUInt(1.5), RangeError);
+    assert.throws(() => buf.writeVarUInt(Number.MAX_SAFE_INTEGER + 1), RangeError);
+  });
+
+  it('Test writeVarInt and readVarInt', () => {
+    const buf = new DynamicBuffer();
+    const values = [0, -1, 1, -2, 63, -64, 64, Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER];
+
+    let offset = 0;
+    values.forEach((value) => {
+      offset = buf.writeVarInt(value, offset);
+    });
+    assert.deepEqual(buf.toBuffer().subarray(0, 7), Buffer.from([0, 1, 2, 3, 0x7e, 0x7f, 0x80]));
+
+    offset = 0;
+    values.forEach((value) => {
+      const result = buf.readVarInt(offset);
+      assert.equal(result.value, value);
+      offset += result.bytesRead;
+    });
+    assert.equal(offset, buf.length);
+
+    assert.throws(() => buf.writeVarInt(Number.MAX_SAFE_INTEGER + 1), RangeError);
+  });
+
+  it('Test 64-bit BigInt varint', () => {
+    const buf = new DynamicBuffer();
+
+    assert.equal(buf.writeBigVarUInt64(0xffffffffffffffffn), 10);
+    assert.deepEqual(buf.readBigVarUInt64(), { value: 0xffffffffffffffffn, bytesRead: 10 });
+    assert.equal(buf.writeBigVarInt64(-0x8000000000000000n, 10), 20);
+    assert.deepEqual(buf.readBigVarInt64(10), { value: -0x8000000000000000n, bytesRead: 10 });
+    assert.equal(buf.writeBigVarInt64(150n, 20), 22);
+    assert.deepEqual(buf.readBigVarInt64(20), { value: 150n, bytesRead: 2 });
+
+    assert.throws(() => buf.writeBigVarUInt64(-1n), RangeError);
+    assert.throws(() => buf.writeBigVarUInt64(2n ** 64n), RangeError);
+    assert.throws(() => buf.writeBigVarInt64(2n ** 63n), RangeError);
+  });
+
+  it('Test arbitrary-length LEB128', () => {
+    const buf = new DynamicBuffer();
+
+    assert.equal(buf.writeBigULEB128(624485n), 3);
+    assert.deepEqual(buf.toBuffer(), Buffer.from([0xe5, 0x8e, 0x26]));
+    assert.deepEqual(buf.readBigULEB128(), { value: 624485n, bytesRead: 3 });
+
+    assert.equal(buf.writeBigSLEB128(-123456n, 0), 3);
+    assert.deepEqual(buf.toBuffer(), Buffer.from([0xc0, 0xbb, 0x78]));
+    assert.deepEqual(buf.readBigSLEB128(), { value: -123456n, bytesRead: 3 });
+
+    const large = 2n ** 200n + 12345n;
+    const end = buf.writeBigULEB128(large, 0);
+    assert.equal(end, 29);
+    assert.deepEqual(buf.readBigULEB128(), { value: large, bytesRead: 29 });
+
+    [0n, -1n, 63n, -64n, 64n, -65n, -large].forEach((value) => {
+      const bytesWritten = buf.writeBigSLEB128(value, 0);
+      assert.deepEqual(buf.readBigSLEB128(), { value, bytesRead: bytesWritten });
+    });
+
+    assert.throws(() => buf.writeBigULEB128(-1n), RangeError);
+  });
+
+  it('Test reading malformed varint', () => {
+    const truncated = new DynamicBuffer(new Uint8Array([0x80, 0x80]));
+    assert.throws(() => truncated.readVarUInt(), RangeError);
+    assert.throws(() => truncated.readBigULEB128(), RangeError);
+    assert.throws(() => new DynamicBuffer().readVarUInt(), RangeError);
+
+    const overlong = new DynamicBuffer(new Uint8Array(11).fill(0x80));
+    overlong.writeUInt8(0x01, 10);
+    assert.throws(() => overlong.readVarUInt(), /longer than 8 bytes/);
+    assert.throws(() => overlong.readBigVarUInt64(), /longer than 10 bytes/);
+    assert.deepEqual(overlong.readBigULEB128(), { value: 2n ** 70n, bytesRead: 11 });
+
+    const outOfRange = new DynamicBuffer(new Uint8Array(8).fill(0xff));
+    outOfRange.writeUInt8(0x7f, 7);
+    assert.throws(() => outOfRange.readVarUInt(), /out of range/);
+
+    const outOfRange64 = new DynamicBuffer(new Uint8Array(10).fill(0xff));
+    outOfRange64.writeUInt8(0x02, 9);
+    assert.throws(() => outOfRange64.readBigVarUInt64(), /out of range/);
+  });
+
+  it('Test reading overlong varint', () => {
+    const zero = new DynamicBuffer(new Uint8Array([0x80, 0x00]));
+    assert.throws(() => zero.readVarUInt(), /overlong encoding/);
+    assert.throws(() => zero.readVarInt(), /overlong encoding/);
+    assert.throws(() => zero.readBigVarUInt64(), /overlong encoding/);
+    assert.throws(() => zero.readBigVarInt64(), /overlong encoding/);
+    assert.throws(() => zero.readBigULEB128(), /overlong encoding/);
+    assert.throws(() => zero.readBigSLEB128(), /overlong encoding/);
+
+    const padded = new DynamicBuffer(new Uint8Array([0xac, 0x82, 0x00]));
+    assert.throws(() => padded.readVarUInt(), /overlong encoding/);
+    assert.deepEqual(padded.readVarUInt(2), { value: 0, bytesRead: 1 });
+
+    const negative = new DynamicBuffer(new Uint8Array([0xff, 0x7f]));
+    assert.throws(() => negative.readBigSLEB128(), /overlong encoding/);
+    assert.deepEqual(negative.readBigULEB128(), { value: 16383n, bytesRead: 2 });
+
+    const signed = new DynamicBuffer(new Uint8Array([0xc0, 0x00, 0xbf, 0x7f]));
+    assert.deepEqual(signed.readBigSLEB128(), { value: 64n, bytesRead: 2 });
+    assert.deepEqual(signed.readBigSLEB128(2), { value: -65n, bytesRead: 2 });
+  });
+
+  it('Test writing varint with max size', () => {
+    const buf = new DynamicBuffer({ maxSize: 2 });
+
+    assert.equal(buf.writeVarUInt(300), 2);
+    assert.throws(() => buf.writeVarUInt(300, 1), DynamicBufferOverflowError);
+    assert.equal(buf.length, 2);
+
+    const rejectBuf = new DynamicBuffer({ maxSize: 2, overflow: 'reject' });
+    assert.equal(rejectBuf.writeVarUInt(0x10000), 0);
+    assert.equal(rejectBuf.length, 0);
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+import { ReadableStream } from 'stream/web';
+
+import { DynamicBuffer, DynamicBufferOverflowError } from '../src';
+
+const createStream = (chunks: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    chunks.forEach((chunk) => controller.enqueue(new Uint8Array(Buffer.from(chunk))));
+    controller.close();
+  },
+});
+
+describe('Web stream tests', () => {
+  it('Test fromReadableStream', async () => {
+    const buf = await DynamicBuffer.fromReadableStream(createStream(['Hello', ' ', 'world']));
+
+    assert.equal(buf.toString(), 'Hello world');
+  });
+
+  it('Test fromReadableStream with max size', async () => {
+    await assert.rejects(
+      DynamicBuffer.fromReadableStream(createStream(['Hello', ' world']), { maxSize: 8 }),
+      DynamicBufferOverflowError,
+    );
+
+    const buf = await DynamicBuffer.fromReadableStream(createStream(['Hello']), { maxSize: 5 });
+    assert.equal(buf.toString(), 'Hello');
+  });
+
+  it('Test toReadableStream', async () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    const chunks: string[] = [];
+    for await (const chunk of buf.toReadableStream({ start: 6 })) {
+      chunks.push(Buffer.from(chunk).toString());
+    }
+    assert.equal(chunks.join(''), 'world');
+
+    const copy = await DynamicBuffer.fromReadableStream(buf.toReadableStream());
+    assert.ok(copy.equals(buf));
+  });
+
+  it('Test toWritableStream', async () => {
+    const buf = new DynamicBuffer('Hello');
+    const writer = buf.toWritableStream().getWriter();
+
+    await writer.write(new Uint8Array(Buffer.from(' world')));
+    await writer.close();
+
+    assert.equal(buf.toString(), 'Hello world');
+  });
+});
@@ -0,0 +1,75 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { DynamicBuffer, DynamicBufferOverflowError, DynamicBufferWritable } from '../src';
+
+describe('Writable stream tests', () => {
+  it('Test writing chunks', async () => {
+    const stream = new DynamicBufferWritable();
+
+    stream.write('Hello');
+    stream.write(Buffer.from(' '));
+    stream.write(new Uint8Array([0x77, 0x6f, 0x72, 0x6c, 0x64]));
+    stream.end();
+
+    const buf = await stream.finished;
+    assert.equal(buf, stream.buffer);
+    assert.equal(buf.toString(), 'Hello world');
+  });
+
+  it('Test createWriteStream', async () => {
+    const buf = new DynamicBuffer('Hello');
+    const stream = buf.createWriteStream();
+
+    await pipeline(Readable.from([' ', 'world', '!']), stream);
+
+    assert.equal(await stream.finished, buf);
+    assert.equal(buf.toString(), 'Hello world!');
+  });
+
+  it('Test writing string chunks without decoding', async () => {
+    const stream = new DynamicBufferWritable(undefined, { decodeStrings: false });
+
+    stream.write('48656c6c6f', 'hex');
+    stream.end(' world');
+
+    assert.equal((await stream.finished).toString(), 'Hello world');
+  });
+
+  it('Test writing batched chunks', async () => {
+    const buf = new DynamicBuffer({ size: 1 });
+    const stream = buf.createWriteStream();
+
+    stream.cork();
+    stream.write('Hello');
+    stream.write(' ');
+    stream.write('world');
+    process.nextTick(() => stream.uncork());
+    stream.end();
+
+    await stream.finished;
+    assert.equal(buf.toString(), 'Hello world');
+  });
+
+  it('Test writing with max size', async () => {
+    const buf = new DynamicBuffer({ maxSize: 8, overflow: 'truncate' });
+    const stream = buf.createWriteStream();
+
+    stream.write('Hello');
+    stream.end(' world');
+
+    await assert.rejects(stream.finished, (err: DynamicBufferOverflowError) => {
+      assert.ok(err instanceof DynamicBufferOverflowError);
+      assert.equal(err.requestedSize, 11);
+      assert.equal(err.maxSize, 8);
+      return true;
+    });
+    assert.equal(buf.toString(), 'Hello');
+  });
+
+  it('Test maxSize', () => {
+    assert.equal(new DynamicBuffer({ maxSize: 1024 }).maxSize, 1024);
+  });
+});
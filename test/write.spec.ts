@@ -119,6 +119,14 @@ describe('Append tests', () => {
     assert.equal(Reflect.get(buffer, 'size'), str.length);
     assert.equal(buffer.toBuffer().toString(), str);
   });
+
+  it('Test appending multibyte string', () => {
+    const buffer = new DynamicBuffer();
+
+    assert.equal(buffer.append('héllo'), 6);
+    assert.equal(buffer.append('½¼', 2), 2);
+    assert.equal(buffer.toString(), 'héllo½');
+  });
 });
 
 describe('Prepend tests', () => {
@@ -345,6 +353,15 @@ describe('Write tests', () => {
       buffer.write(65);
     });
   });
+
+  it('Test writing multibyte string', () => {
+    const buffer = new DynamicBuffer('Hello');
+
+    assert.equal(buffer.write('wörld', 1), 6);
+    assert.equal(buffer.toString(), 'Hwörld');
+    assert.equal(buffer.prepend('¡'), 2);
+    assert.equal(buffer.toString(), '¡Hwörld');
+  });
 });
 
 describe('Set tests', () => {
@@ -529,3 +546,289 @@ describe('More write methods test', () => {
     }
   });
 });
+
+describe('Append number tests', () => {
+  it('Test appending numbers', () => {
+    const buf = new DynamicBuffer('AB', { size: 2 });
+
+    assert.equal(buf.appendUInt8(0x01), 3);
+    assert.equal(buf.appendInt8(-2), 4);
+    assert.equal(buf.appendUInt16BE(0x0102), 6);
+    assert.equal(buf.appendUInt16LE(0x0102), 8);
+    assert.equal(buf.appendInt16BE(-2), 10);
+    assert.equal(buf.appendInt16LE(-2), 12);
+    assert.equal(buf.appendUInt32BE(0x01020304), 16);
+    assert.equal(buf.appendUInt32LE(0x01020304), 20);
+    assert.equal(buf.appendInt32BE(-2), 24);
+    assert.equal(buf.appendInt32LE(-2), 28);
+    assert.equal(buf.appendIntBE(-2, 3), 31);
+    assert.equal(buf.appendIntLE(-2, 3), 34);
+    assert.equal(buf.appendUIntBE(0x010203, 3), 37);
+    assert.equal(buf.appendUIntLE(0x010203, 3), 40);
+
+    assert.equal(buf.length, 40);
+    assert.deepEqual(buf.toJSON().data, [
+      0x41, 0x42,
+      0x01,
+      0xfe,
+      0x01, 0x02,
+      0x02, 0x01,
+      0xff, 0xfe,
+      0xfe, 0xff,
+      0x01, 0x02, 0x03, 0x04,
+      0x04, 0x03, 0x02, 0x01,
+      0xff, 0xff, 0xff, 0xfe,
+      0xfe, 0xff, 0xff, 0xff,
+      0xff, 0xff, 0xfe,
+      0xfe, 0xff, 0xff,
+      0x01, 0x02, 0x03,
+      0x03, 0x02, 0x01,
+    ]);
+  });
+
+  it('Test appending BigInt, double and float', () => {
+    const buf = new DynamicBuffer({ size: 0 });
+
+    assert.equal(buf.appendBigInt64BE(-1n), 8);
+    assert.equal(buf.appendBigInt64LE(-2n), 16);
+    assert.equal(buf.appendBigUInt64BE(3n), 24);
+    assert.equal(buf.appendBigUInt64LE(4n), 32);
+    assert.equal(buf.appendDoubleBE(0.5), 40);
+    assert.equal(buf.appendDoubleLE(0.25), 48);
+    assert.equal(buf.appendFloatBE(1.5), 52);
+    assert.equal(buf.appendFloatLE(2.5), 56);
+
+    assert.equal(buf.readBigInt64BE(0), -1n);
+    assert.equal(buf.readBigInt64LE(8), -2n);
+    assert.equal(buf.readBigUInt64BE(16), 3n);
+    assert.equal(buf.readBigUInt64LE(24), 4n);
+    assert.equal(buf.readDoubleBE(32), 0.5);
+    assert.equal(buf.readDoubleLE(40), 0.25);
+    assert.equal(buf.readFloatBE(48), 1.5);
+    assert.equal(buf.readFloatLE(52), 2.5);
+  });
+
+  it('Test appending numbers after string', () => {
+    const buf = new DynamicBuffer();
+
+    buf.append('Hello');
+    buf.appendUInt8(0x20);
+    buf.append('world');
+
+    assert.equal(buf.toString(), 'Hello world');
+  });
+});
+
+describe('Prepend number tests', () => {
+  it('Test prepending numbers', () => {
+    const buf = new DynamicBuffer('AB', { size: 2 });
+
+    assert.equal(buf.prependUInt8(0x01), 1);
+    assert.equal(buf.prependInt8(-2), 1);
+    assert.equal(buf.prependUInt16BE(0x0102), 2);
+    assert.equal(buf.prependUInt16LE(0x0102), 2);
+    assert.equal(buf.prependInt16BE(-2), 2);
+    assert.equal(buf.prependInt16LE(-2), 2);
+    assert.equal(buf.prependUInt32BE(0x01020304), 4);
+    assert.equal(buf.prependUInt32LE(0x01020304), 4);
+    assert.equal(buf.prependInt32BE(-2), 4);
+    assert.equal(buf.prependInt32LE(-2), 4);
+    assert.equal(buf.prependIntBE(-2, 3), 3);
+    assert.equal(buf.prependIntLE(-2, 3), 3);
+    assert.equal(buf.prependUIntBE(0x010203, 3), 3);
+    assert.equal(buf.prependUIntLE(0x010203, 3), 3);
+
+    assert.equal(buf.length, 40);
+    assert.deepEqual(buf.toJSON().data, [
+      0x03, 0x02, 0x01,
+      0x01, 0x02, 0x03,
+      0xfe, 0xff, 0xff,
+      0xff, 0xff, 0xfe,
+      0xfe, 0xff, 0xff, 0xff,
+      0xff, 0xff, 0xff, 0xfe,
+      0x04, 0x03, 0x02, 0x01,
+      0x01, 0x02, 0x03, 0x04,
+      0xfe, 0xff,
+      0xff, 0xfe,
+      0x02, 0x01,
+      0x01, 0x02,
+      0xfe,
+      0x01,
+      0x41, 0x42,
+    ]);
+  });
+
+  it('Test prepending BigInt, double and float', () => {
+    const buf = new DynamicBuffer({ size: 0 });
+
+    assert.equal(buf.prependFloatLE(2.5), 4);
+    assert.equal(buf.prependFloatBE(1.5), 4);
+    assert.equal(buf.prependDoubleLE(0.25), 8);
+    assert.equal(buf.prependDoubleBE(0.5), 8);
+    assert.equal(buf.prependBigUInt64LE(4n), 8);
+    assert.equal(buf.prependBigUInt64BE(3n), 8);
+    assert.equal(buf.prependBigInt64LE(-2n), 8);
+    assert.equal(buf.prependBigInt64BE(-1n), 8);
+
+    assert.equal(buf.length, 56);
+    assert.equal(buf.readBigInt64BE(0), -1n);
+    assert.equal(buf.readBigInt64LE(8), -2n);
+    assert.equal(buf.readBigUInt64BE(16), 3n);
+    assert.equal(buf.readBigUInt64LE(24), 4n);
+    assert.equal(buf.readDoubleBE(32), 0.5);
+    assert.equal(buf.readDoubleLE(40), 0.25);
+    assert.equal(buf.readFloatBE(48), 1.5);
+    assert.equal(buf.readFloatLE(52), 2.5);
+  });
+
+  it('Test prepending header to payload', () => {
+    const buf = new DynamicBuffer('payload');
+
+    buf.prependUInt16BE(buf.length);
+
+    assert.equal(buf.readUInt16BE(0), 7);
+    assert.equal(buf.toString('utf8', 2), 'payload');
+  });
+
+  it('Test prepending invalid values', () => {
+    const buf = new DynamicBuffer('payload');
+
+    assert.throws(() => buf.prependUInt8(256), RangeError);
+    assert.throws(() => buf.prependIntBE(0, 7), RangeError);
+    assert.equal(buf.toString(), 'payload');
+  });
+
+  it('Test prepending numbers with reject overflow mode', () => {
+    const buf = new DynamicBuffer('ab', { maxSize: 4, overflow: 'reject' });
+
+    assert.equal(buf.prependUInt32BE(0x11223344), 0);
+    assert.equal(buf.prependBigUInt64LE(1n), 0);
+    assert.equal(buf.prependUIntBE(0x112233, 3), 0);
+    assert.equal(buf.toString(), 'ab');
+
+    assert.equal(buf.prependUInt16BE(0x1122), 2);
+    assert.equal(buf.prependUInt8(0x33), 0);
+    assert.deepEqual(buf.toJSON().data, [0x11, 0x22, 0x61, 0x62]);
+  });
+
+  it('Test prepending numbers with truncate overflow mode', () => {
+    const buf = new DynamicBuffer('ab', { maxSize: 4, overflow: 'truncate' });
+
+    assert.equal(buf.prependUInt32BE(0x11223344), 0);
+    assert.equal(buf.prependDoubleLE(0.5), 0);
+    assert.equal(buf.prependBigInt64BE(-1n), 0);
+    assert.equal(buf.prependIntLE(-2, 3), 0);
+    assert.equal(buf.toString(), 'ab');
+
+    assert.equal(buf.prependUInt8(0x11), 1);
+    assert.equal(buf.prependUInt16LE(0x2233), 0);
+    assert.equal(buf.prependInt8(-1), 1);
+    assert.deepEqual(buf.toJSON().data, [0xff, 0x11, 0x61, 0x62]);
+  });
+});
+
+describe('Insert tests', () => {
+  it('Test inserting string', () => {
+    const buf = new DynamicBuffer('Hello!', { size: 6 });
+
+    assert.equal(buf.insert(5, ' world'), 6);
+    assert.equal(buf.toString(), 'Hello world!');
+    assert.equal(buf.length, 12);
+
+    assert.equal(buf.insert(0, '>> '), 3);
+    assert.equal(buf.insert(buf.length, ' <<'), 3);
+    assert.equal(buf.toString(), '>> Hello world! <<');
+  });
+
+  it('Test inserting a Buffer with length and encoding', () => {
+    const buf = new DynamicBuffer('AD');
+
+    assert.equal(buf.insert(1, Buffer.from('BCX'), 2), 2);
+    assert.equal(buf.toString(), 'ABCD');
+    assert.equal(buf.insert(2, '2d2d', undefined, 'hex'), 2);
+    assert.equal(buf.toString(), 'AB--CD');
+    assert.equal(buf.insert(0, ''), 0);
+    assert.equal(buf.toString(), 'AB--CD');
+  });
+
+  it('Test inserting with invalid arguments', () => {
+    const buf = new DynamicBuffer('Hello');
+
+    assert.throws(() => buf.insert(-1, 'A'), RangeError);
+    assert.throws(() => buf.insert(6, 'A'), RangeError);
+    // @ts-ignore
+    assert.throws(() => buf.insert(0, 1), TypeError);
+    assert.equal(buf.toString(), 'Hello');
+  });
+});
+
+describe('Remove tests', () => {
+  it('Test removing bytes', () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    assert.equal(buf.remove(5, 6), 1);
+    assert.equal(buf.toString(), 'Helloworld');
+    assert.equal(buf.remove(5), 5);
+    assert.equal(buf.toString(), 'Hello');
+    assert.equal(buf.remove(3, 100), 2);
+    assert.equal(buf.toString(), 'Hel');
+    assert.equal(buf.remove(2, 1), 0);
+    assert.equal(buf.remove(10), 0);
+    assert.equal(buf.toString(), 'Hel');
+    assert.equal(buf.remove(), 3);
+    assert.equal(buf.length, 0);
+  });
+
+  it('Test removing bytes with negative offsets', () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    assert.equal(buf.remove(-3), 3);
+    assert.equal(buf.toString(), 'Hello wo');
+    assert.equal(buf.remove(-4, -1), 3);
+    assert.equal(buf.toString(), 'Hello');
+    assert.equal(buf.remove(1, -1), 3);
+    assert.equal(buf.toString(), 'Ho');
+    assert.equal(buf.remove(-1, -1), 0);
+    assert.equal(buf.remove(-10, 1), 1);
+    assert.equal(buf.toString(), 'o');
+  });
+
+  it('Test removing from empty buffer', () => {
+    const buf = new DynamicBuffer({ size: 0 });
+
+    assert.equal(buf.remove(), 0);
+    assert.equal(buf.length, 0);
+  });
+});
+
+describe('Splice tests', () => {
+  it('Test splice', () => {
+    const buf = new DynamicBuffer('Hello world');
+
+    assert.equal(buf.splice(5, 6, 0x21).toString(), ' world');
+    assert.equal(buf.toString(), 'Hello!');
+
+    assert.equal(buf.splice(1, 0, 0x61, 0x62, 0x63).length, 0);
+    assert.equal(buf.toString(), 'Habcello!');
+
+    assert.equal(buf.splice(-1).toString(), '!');
+    assert.equal(buf.toString(), 'Habcello');
+
+    assert.equal(buf.splice(1, 3).toString(), 'abc');
+    assert.equal(buf.toString(), 'Hello');
+
+    assert.equal(buf.splice(-100, 1).toString(), 'H');
+    assert.equal(buf.splice(100, 1, 0x21).toString(), '');
+    assert.equal(buf.splice(0, -1, 0x48).toString(), '');
+    assert.equal(buf.toString(), 'Hello!');
+    assert.equal(buf.length, 6);
+  });
+
+  it('Test splice with growing buffer', () => {
+    const buf = new DynamicBuffer('AB', { size: 2 });
+
+    buf.splice(1, 0, ...Buffer.from('0123456789'));
+
+    assert.equal(buf.toString(), 'A0123456789B');
+  });
+});
@@ -0,0 +1,145 @@
+import assert from 'assert';
+import { describe, it } from 'mocha';
+
+import { DynamicBuffer, DynamicBufferReader, DynamicBufferWriter } from '../src';
+
+describe('Writer tests', () => {
+  it('Test writing sequentially', () => {
+    const buf = new DynamicBuffer({ size: 0 });
+    const writer = new DynamicBufferWriter(buf);
+
+    writer
+      .uint8(0x12)
+      .int16LE(-2)
+      .floatBE(1.5)
+      .bigUInt64LE(4294967295n)
+      .string('Hello')
+      .bytes(new Uint8Array([1, 2]));
+
+    assert.equal(writer.tell(), 22);
+    assert.equal(buf.length, 22);
+
+    const reader = new DynamicBufferReader(buf);
+    assert.equal(reader.readUInt8(), 0x12);
+    assert.equal(reader.readInt16LE(), -2);
+    assert.equal(reader.readFloatBE(), 1.5);
+    assert.equal(reader.readBigUInt64LE(), 4294967295n);
+    assert.equal(reader.readString(5), 'Hello');
+    assert.deepEqual([...reader.readBytes(2)], [1, 2]);
+  });
+
+  it('Test writing all types', () => {
+    const buf = new DynamicBuffer();
+    const expect = new DynamicBuffer();
+    const writer = new DynamicBufferWriter(buf);
+
+    writer
+      .bigInt64BE(-1n)
+      .bigInt64LE(-2n)
+      .bigUInt64BE(1n)
+      .doubleBE(0.5)
+      .doubleLE(0.25)
+      .floatLE(2.5)
+      .int8(-3)
+      .int16BE(-4)
+      .int32BE(-5)
+      .int32LE(-6)
+      .intBE(-7, 3)
+      .intLE(-8, 5)
+      .uint16BE(9)
+      .uint16LE(10)
+      .uint32BE(11)
+      .uint32LE(12)
+      .uintBE(13, 6)
+      .uintLE(14, 2);
+
+    let offset = expect.writeBigInt64BE(-1n);
+    offset = expect.writeBigInt64LE(-2n, offset);
+    offset = expect.writeBigUInt64BE(1n, offset);
+    offset = expect.writeDoubleBE(0.5, offset);
+    offset = expect.writeDoubleLE(0.25, offset);
+    offset = expect.writeFloatLE(2.5, offset);
+    offset = expect.writeInt8(-3, offset);
+    offset = expect.writeInt16BE(-4, offset);
+    offset = expect.writeInt32BE(-5, offset);
+    offset = expect.writeInt32LE(-6, offset);
+    offset = expect.writeIntBE(-7, offset, 3);
+    offset = expect.writeIntLE(-8, offset, 5);
+    offset = expect.writeUInt16BE(9, offset);
+    offset = expect.writeUInt16LE(10, offset);
+    offset = expect.writeUInt32BE(11, offset);
+    offset = expect.writeUInt32LE(12, offset);
+    offset = expect.writeUIntBE(13, offset, 6);
+    offset = expect.writeUIntLE(14, offset, 2);
+
+    assert.equal(writer.tell(), offset);
+    assert.equal(buf.equals(expect), true);
+  });
+
+  it('Test overwriting header by seek', () => {
+    const buf = new DynamicBuffer();
+    const writer = new DynamicBufferWriter(buf);
+
+    writer.uint16BE(0).string('Hello world');
+    writer.seek(0).uint16BE(buf.length - 2);
+
+    assert.equal(buf.length, 13);
+    assert.equal(buf.readUInt16BE(0), 11);
+    assert.equal(buf.toString('utf8', 2), 'Hello world');
+
+    writer.seek(2).bytes(new DynamicBuffer('J')).string('ELLO', 'ascii');
+    assert.equal(buf.toString('utf8', 2), 'JELLO world');
+    assert.equal(writer.tell(), 7);
+
+    assert.throws(() => writer.seek(14), RangeError);
+    assert.throws(() => new DynamicBufferWriter(buf, -1), RangeError);
+  });
+
+  it('Test writing at the initial offset', () => {
+    const buf = new DynamicBuffer('Hello');
+    const writer = new DynamicBufferWriter(buf, buf.length);
+
+    writer.string(' world').bytes(Buffer.from('!'));
+
+    assert.equal(buf.toString(), 'Hello world!');
+  });
+
+  it('Test writing string with buffer encoding', () => {
+    const buf = new DynamicBuffer({ encoding: 'hex' });
+    const writer = new DynamicBufferWriter(buf);
+
+    writer.string('48656c6c6f').string(' world', 'utf8');
+
+    assert.equal(buf.encoding, 'hex');
+    assert.equal(buf.toString('utf8'), 'Hello world');
+  });
+
+  it('Test writing with reject overflow mode', () => {
+    const buf = new DynamicBuffer({ maxSize: 4, overflow: 'reject' });
+    const writer = new DynamicBufferWriter(buf);
+
+    writer.string('Hello');
+    assert.equal(writer.tell(), 0);
+    assert.equal(buf.length, 0);
+
+    writer.uint16BE(0x4869).bytes(Buffer.from('abc')).string('!');
+    assert.equal(writer.tell(), 3);
+    assert.equal(buf.toString(), 'Hi!');
+  });
+
+  it('Test writing with truncate overflow mode', () => {
+    const buf = new DynamicBuffer({ maxSize: 4, overflow: 'truncate' });
+    const writer = new DynamicBufferWriter(buf);
+
+    writer.string('Hello');
+    assert.equal(writer.tell(), 4);
+    assert.equal(buf.toString(), 'Hell');
+
+    writer.uint8(0x21);
+    assert.equal(writer.tell(), 4);
+
+    writer.seek(2).bytes(Buffer.from('LLO'));
+    assert.equal(writer.tell(), 4);
+    assert.equal(buf.toString(), 'HeLL');
+  });
+});